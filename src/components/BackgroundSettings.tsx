@@ -0,0 +1,63 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BACKGROUND_MODES, type BackgroundFill, type BackgroundMode } from '@/utils/background';
+
+interface BackgroundSettingsProps {
+  background: BackgroundFill;
+  onChange: (background: BackgroundFill) => void;
+  disabled?: boolean;
+}
+
+const BackgroundSettings: React.FC<BackgroundSettingsProps> = ({
+  background,
+  onChange,
+  disabled = false
+}) => {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Fundo</Label>
+      <div className="flex items-center gap-2">
+        <Select
+          value={background.mode}
+          onValueChange={(mode) => onChange({ ...background, mode: mode as BackgroundMode })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKGROUND_MODES.map(mode => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="color"
+          value={background.color}
+          onChange={(e) => onChange({ ...background, color: e.target.value })}
+          disabled={disabled}
+          className="h-9 w-12 shrink-0 p-1 cursor-pointer"
+          aria-label="Cor do fundo"
+          title={background.mode === 'color' ? 'Cor do fundo' : 'Cor usada quando o modo não se aplica'}
+        />
+      </div>
+      {background.mode === 'transparent' && (
+        <p className="text-xs text-muted-foreground">
+          Formatos sem transparência (como JPEG) usam a cor escolhida.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BackgroundSettings;
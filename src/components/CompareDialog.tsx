@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getFileDetails } from '@/utils/imageProcessor';
+import { computeFitPlacement, getSourceRectOnCanvas, type FitMode } from '@/utils/fitMode';
+import { getCropPixels, type PixelRect, type SourceCrop } from '@/utils/crop';
+import { useZoomPan } from '@/hooks/use-zoom-pan';
+import ZoomControls from '@/components/ZoomControls';
+
+const SPLIT_KEY_STEP = 0.05;
+
+interface CompareDialogProps {
+  file: File | null;
+  /** The converted image */
+  convertedUrl: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetWidth: number;
+  targetHeight: number;
+  fitMode?: FitMode;
+  crop?: SourceCrop;
+  /** Real size of the output, which a size limit may have reduced */
+  outputWidth?: number;
+  outputHeight?: number;
+}
+
+/** Layout of the original over the output, in canvas pixels */
+interface Overlay {
+  sourceWidth: number;
+  sourceHeight: number;
+  canvasWidth: number;
+  canvasHeight: number;
+  /** Where the whole original lands on the canvas */
+  sourceRect: PixelRect;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const CompareDialog: React.FC<CompareDialogProps> = ({
+  file,
+  convertedUrl,
+  open,
+  onOpenChange,
+  targetWidth,
+  targetHeight,
+  fitMode,
+  crop,
+  outputWidth,
+  outputHeight
+}) => {
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState<Overlay | null>(null);
+  // Share of the viewport, from the left, that shows the original
+  const [split, setSplit] = useState(0.5);
+  const splitPointerRef = useRef<number | null>(null);
+  const zoomPan = useZoomPan(overlay?.canvasWidth ?? null, overlay?.canvasHeight ?? null, outputWidth);
+  const { base, view, contentStyle, imageRendering } = zoomPan;
+
+  useEffect(() => {
+    if (!file || !open) return;
+
+    let isMounted = true;
+    // Full resolution, so the 100% view shows real source pixels; the
+    // browser applies the EXIF orientation just like the converter does
+    const url = URL.createObjectURL(file);
+    setOriginalUrl(url);
+    setOverlay(null);
+    setSplit(0.5);
+
+    getFileDetails(file)
+      .then(({ width, height }) => {
+        if (!isMounted) return;
+        const placement = computeFitPlacement(
+          width,
+          height,
+          targetWidth,
+          targetHeight,
+          fitMode,
+          crop ? getCropPixels(crop, width, height) : undefined
+        );
+        setOverlay({
+          sourceWidth: width,
+          sourceHeight: height,
+          canvasWidth: placement.canvasWidth,
+          canvasHeight: placement.canvasHeight,
+          sourceRect: getSourceRectOnCanvas(placement, width, height),
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to load comparison:', error);
+      });
+
+    return () => {
+      isMounted = false;
+      URL.revokeObjectURL(url);
+    };
+  }, [file, open, targetWidth, targetHeight, fitMode, crop]);
+
+  const moveSplit = (handle: HTMLElement, clientX: number) => {
+    const viewport = handle.parentElement;
+    if (!viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    setSplit(clamp((clientX - rect.left) / rect.width, 0, 1));
+  };
+
+  const handleSplitStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    // The handle sits inside the viewport, which would start a pan
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    splitPointerRef.current = e.pointerId;
+  };
+
+  const handleSplitMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (splitPointerRef.current === e.pointerId) {
+      moveSplit(e.currentTarget, e.clientX);
+    }
+  };
+
+  const handleSplitEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (splitPointerRef.current === e.pointerId) {
+      splitPointerRef.current = null;
+    }
+  };
+
+  const handleSplitKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      const step = e.key === 'ArrowLeft' ? -SPLIT_KEY_STEP : SPLIT_KEY_STEP;
+      setSplit(current => clamp(current + step, 0, 1));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] w-[95vw] h-[92vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Comparar antes e depois</DialogTitle>
+          <DialogDescription>
+            Arraste a divisória para comparar. Role para ampliar e arraste a imagem para movê-la; o que fica fora do quadro é cortado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          ref={zoomPan.viewportRef}
+          className="relative flex-1 min-h-0 overflow-hidden rounded-lg bg-secondary/50 cursor-grab active:cursor-grabbing select-none touch-none"
+          {...zoomPan.viewportHandlers}
+        >
+          {overlay && contentStyle && convertedUrl && originalUrl && (
+            <>
+              <div className="absolute inset-0">
+                <div className="absolute left-0 top-0 origin-top-left" style={contentStyle}>
+                  <img
+                    src={convertedUrl}
+                    alt="Convertida"
+                    draggable={false}
+                    className="absolute inset-0 w-full h-full"
+                    style={{ imageRendering }}
+                  />
+                </div>
+              </div>
+
+              <div
+                className="absolute inset-0"
+                style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+              >
+                <div className="absolute left-0 top-0 origin-top-left" style={contentStyle}>
+                  <img
+                    src={originalUrl}
+                    alt="Original"
+                    draggable={false}
+                    className="absolute max-w-none"
+                    style={{
+                      left: `${(overlay.sourceRect.x / overlay.canvasWidth) * 100}%`,
+                      top: `${(overlay.sourceRect.y / overlay.canvasHeight) * 100}%`,
+                      width: `${(overlay.sourceRect.width / overlay.canvasWidth) * 100}%`,
+                      height: `${(overlay.sourceRect.height / overlay.canvasHeight) * 100}%`,
+                      imageRendering,
+                    }}
+                  />
+                </div>
+                {/* Output frame; whatever of the original falls outside is cut */}
+                <div
+                  className="absolute border border-white/80 shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] pointer-events-none"
+                  style={{
+                    left: view.panX,
+                    top: view.panY,
+                    width: base!.width * view.zoom,
+                    height: base!.height * view.zoom,
+                  }}
+                />
+              </div>
+
+              <div
+                role="slider"
+                tabIndex={0}
+                aria-label="Divisão entre original e convertida"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(split * 100)}
+                className="absolute inset-y-0 w-6 -translate-x-1/2 cursor-ew-resize focus:outline-none group"
+                style={{ left: `${split * 100}%` }}
+                onPointerDown={handleSplitStart}
+                onPointerMove={handleSplitMove}
+                onPointerUp={handleSplitEnd}
+                onPointerCancel={handleSplitEnd}
+                onKeyDown={handleSplitKeyDown}
+              >
+                <div className="absolute inset-y-0 left-1/2 w-0.5 -translate-x-1/2 bg-white shadow" />
+                <div className="absolute left-1/2 top-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-black/50 group-focus-visible:ring-2 group-focus-visible:ring-ring" />
+              </div>
+
+              <span className="absolute left-2 top-2 rounded-full bg-black/50 px-2 py-0.5 text-xs font-medium text-white pointer-events-none">
+                Original
+              </span>
+              <span className="absolute right-2 top-2 rounded-full bg-black/50 px-2 py-0.5 text-xs font-medium text-white pointer-events-none">
+                Convertida
+              </span>
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="text-xs text-muted-foreground">
+            {overlay && (
+              <>
+                Original {overlay.sourceWidth}×{overlay.sourceHeight}
+                {' • '}Convertida {outputWidth ?? overlay.canvasWidth}×{outputHeight ?? overlay.canvasHeight}
+              </>
+            )}
+          </div>
+          <ZoomControls zoomPan={zoomPan} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompareDialog;
@@ -2,29 +2,72 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download, RefreshCw, Trash2, Grid3X3 } from 'lucide-react';
+import { Download, RefreshCw, Trash2, Grid3X3, FileText, Pause, Play, XCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { formatPresetSize, type SizePreset } from '@/utils/sizePresets';
+import { formatGrid, type MosaicGrid } from '@/utils/mosaicLayout';
+import { getFitModeLabel, type FitMode } from '@/utils/fitMode';
+import { PAPER_SIZES } from '@/utils/paper';
+import type { PdfSettings } from '@/utils/pdfExport';
+import type { ArchiveProgress } from '@/utils/archive';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
 interface ConversionCardProps {
   totalImages: number;
   processedImages: number;
   onDownloadAll: () => void;
+  /** How far the download archive has been written, null when idle */
+  archiveProgress?: ArchiveProgress | null;
   onReset: () => void;
   isProcessing: boolean;
+  isPaused: boolean;
+  onPauseChange: (paused: boolean) => void;
+  onCancelAll: () => void;
   mosaicMode: boolean;
   onMosaicModeChange: (enabled: boolean) => void;
+  activePreset: SizePreset;
+  mosaicGrid: MosaicGrid;
+  fitMode: FitMode;
+  pdfSettings: PdfSettings;
+  onPdfSettingsChange: (settings: PdfSettings) => void;
+  /** Resolution the pieces are printed at in the PDF */
+  pdfDpi: number;
+  /** Why the finished pieces don't fit the PDF paper, if they don't */
+  pdfFitError: string | null;
+  onDownloadPdf: () => void;
+  children?: React.ReactNode;
 }
 
 const ConversionCard: React.FC<ConversionCardProps> = ({
   totalImages,
   processedImages,
   onDownloadAll,
+  archiveProgress = null,
   onReset,
   isProcessing,
+  isPaused,
+  onPauseChange,
+  onCancelAll,
   mosaicMode,
-  onMosaicModeChange
+  onMosaicModeChange,
+  activePreset,
+  mosaicGrid,
+  fitMode,
+  pdfSettings,
+  onPdfSettingsChange,
+  pdfDpi,
+  pdfFitError,
+  onDownloadPdf,
+  children
 }) => {
   const progress = totalImages > 0 ? (processedImages / totalImages) * 100 : 0;
 
@@ -33,18 +76,22 @@ const ConversionCard: React.FC<ConversionCardProps> = ({
       <CardHeader className="pb-2">
         <CardTitle className="text-lg font-medium flex items-center justify-between">
           <span>Redimensionar Imagens</span>
-          {isProcessing && (
+          {isProcessing && (isPaused ? (
+            <Pause className="w-4 h-4 text-muted-foreground" />
+          ) : (
             <RefreshCw className="w-4 h-4 animate-spin text-primary" />
-          )}
+          ))}
         </CardTitle>
         <CardDescription>
           {mosaicMode 
-            ? "Mosaico 3×3 para impressão em folhas A4" 
-            : "Redimensionar para 2050px horizontal ou 2994px vertical"}
+            ? `Mosaico ${formatGrid(mosaicGrid)} com partes de ${formatPresetSize(activePreset)}`
+            : `${getFitModeLabel(fitMode)}: ${formatPresetSize(activePreset)}`}
         </CardDescription>
       </CardHeader>
       
       <CardContent className="pb-2">
+        {children && <div className="mb-4">{children}</div>}
+
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-2">
             <Switch 
@@ -55,7 +102,7 @@ const ConversionCard: React.FC<ConversionCardProps> = ({
             />
             <Label htmlFor="mosaico" className="text-sm font-medium flex items-center cursor-pointer">
               <Grid3X3 className="h-4 w-4 mr-2 text-primary" />
-              Modo Mosaico (3x3)
+              Modo Mosaico ({formatGrid(mosaicGrid)})
             </Label>
           </div>
         </div>
@@ -71,38 +118,151 @@ const ConversionCard: React.FC<ConversionCardProps> = ({
               <div 
                 className={cn(
                   "h-full bg-primary transition-all duration-300",
-                  isProcessing ? "animate-pulse-subtle" : ""
+                  isProcessing && !isPaused ? "animate-pulse-subtle" : ""
                 )}
                 style={{ width: `${progress}%` }}
               />
             </div>
+            
+            {isProcessing && (
+              <div className="mt-3 flex w-full gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onPauseChange(!isPaused)}
+                  className="w-1/2"
+                >
+                  {isPaused ? (
+                    <Play className="w-4 h-4 mr-2" />
+                  ) : (
+                    <Pause className="w-4 h-4 mr-2" />
+                  )}
+                  {isPaused ? 'Continuar' : 'Pausar'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onCancelAll}
+                  className="w-1/2 group"
+                >
+                  <XCircle className="w-4 h-4 mr-2 group-hover:text-destructive" />
+                  Cancelar
+                </Button>
+              </div>
+            )}
           </>
         )}
       </CardContent>
       
-      <CardFooter className="flex justify-between gap-2 pt-2">
+      <CardFooter className="flex flex-col gap-2 pt-2">
         {totalImages > 0 ? (
           <>
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={onReset}
-              className="w-1/2 group"
-              disabled={isProcessing}
-            >
-              <Trash2 className="w-4 h-4 mr-2 group-hover:text-destructive" />
-              Limpar
-            </Button>
+            <div className="flex w-full justify-between gap-2">
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={onReset}
+                className="w-1/2 group"
+              >
+                <Trash2 className="w-4 h-4 mr-2 group-hover:text-destructive" />
+                Limpar
+              </Button>
+            
+              <Button 
+                size="sm" 
+                onClick={onDownloadAll}
+                className="w-1/2"
+                disabled={processedImages === 0 || isProcessing || archiveProgress !== null}
+              >
+                {archiveProgress !== null ? (
+                  <>
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    {archiveProgress.totalEntries > 0
+                      ? `Compactando ${archiveProgress.entries}/${archiveProgress.totalEntries}`
+                      : 'Preparando...'}
+                  </>
+                ) : (
+                  <>
+                    <Download className="w-4 h-4 mr-2" />
+                    Baixar {mosaicMode ? "mosaicos" : "todos"}
+                  </>
+                )}
+              </Button>
+            </div>
+            
+            {archiveProgress !== null && (
+              <div className="w-full space-y-1">
+                <div className="w-full h-1 bg-secondary rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all duration-300"
+                    style={{ width: `${archiveProgress.percent}%` }}
+                  />
+                </div>
+                {archiveProgress.currentFile && (
+                  <p className="text-xs text-muted-foreground truncate" title={archiveProgress.currentFile}>
+                    {archiveProgress.currentFile}
+                  </p>
+                )}
+              </div>
+            )}
             
-            <Button 
-              size="sm" 
-              onClick={onDownloadAll}
-              className="w-1/2"
-              disabled={processedImages === 0 || isProcessing}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Baixar {mosaicMode ? "mosaicos" : "todos"}
-            </Button>
+            {mosaicMode && (
+              <div className="w-full space-y-1">
+                <div className="flex w-full items-center gap-2">
+                  <Select
+                    value={pdfSettings.paperId}
+                    onValueChange={(paperId) => onPdfSettingsChange({ ...pdfSettings, paperId })}
+                  >
+                    <SelectTrigger className="h-9 flex-1" aria-label="Tamanho do papel do PDF">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAPER_SIZES.map(paper => (
+                        <SelectItem key={paper.id} value={paper.id}>
+                          {paper.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  
+                  <Input
+                    type="number"
+                    min={0}
+                    max={50}
+                    value={pdfSettings.marginMm}
+                    onChange={(e) => {
+                      const marginMm = Number(e.target.value);
+                      if (Number.isFinite(marginMm) && marginMm >= 0 && marginMm <= 50) {
+                        onPdfSettingsChange({ ...pdfSettings, marginMm });
+                      }
+                    }}
+                    className="h-9 w-16"
+                    aria-label="Margem do papel do PDF em milímetros"
+                    title="Margem (mm)"
+                  />
+                  
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onDownloadPdf}
+                    disabled={processedImages === 0 || isProcessing || pdfFitError !== null}
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    PDF
+                  </Button>
+                </div>
+                
+                {pdfFitError ? (
+                  <p className="text-xs text-destructive">
+                    {pdfFitError}. Escolha um papel maior ou uma margem menor.
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    PDF em tamanho real a {pdfDpi} dpi, margem em mm
+                  </p>
+                )}
+              </div>
+            )}
           </>
         ) : (
           <p className="text-sm text-muted-foreground">
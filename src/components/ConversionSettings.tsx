@@ -0,0 +1,51 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FIT_MODES, type FitMode } from '@/utils/fitMode';
+
+interface ConversionSettingsProps {
+  fitMode: FitMode;
+  onFitModeChange: (fitMode: FitMode) => void;
+  disabled?: boolean;
+}
+
+const ConversionSettings: React.FC<ConversionSettingsProps> = ({
+  fitMode,
+  onFitModeChange,
+  disabled = false
+}) => {
+  const activeMode = FIT_MODES.find(mode => mode.value === fitMode);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Ajuste</Label>
+      <Select
+        value={fitMode}
+        onValueChange={(value) => onFitModeChange(value as FitMode)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FIT_MODES.map(mode => (
+            <SelectItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeMode && (
+        <p className="text-xs text-muted-foreground">{activeMode.description}</p>
+      )}
+    </div>
+  );
+};
+
+export default ConversionSettings;
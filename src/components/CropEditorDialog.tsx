@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Crosshair, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  clampCrop,
+  getCropAroundPoint,
+  getCropZoom,
+  type SourceCrop,
+} from '@/utils/crop';
+import { createThumbnailUrl, getFileDetails } from '@/utils/imageProcessor';
+
+const MAX_ZOOM = 5;
+/** Longest side of the preview, large enough to place a crop precisely */
+const CROP_PREVIEW_SIZE = 1600;
+
+interface CropEditorDialogProps {
+  file: File | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Width / height ratio the crop is locked to */
+  aspect: number;
+  /** Aspect ratio description shown to the user, e.g. "2050×2994" */
+  aspectLabel: string;
+  crop?: SourceCrop;
+  /** Called with undefined when the automatic centered crop is restored */
+  onApply: (crop: SourceCrop | undefined) => void;
+}
+
+interface DragState {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startCrop: SourceCrop;
+}
+
+const CropEditorDialog: React.FC<CropEditorDialogProps> = ({
+  file,
+  open,
+  onOpenChange,
+  aspect,
+  aspectLabel,
+  crop: initialCrop,
+  onApply
+}) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState<SourceCrop | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // The initial crop and aspect are read once per opening, not on every change
+  const initialCropRef = useRef(initialCrop);
+  const aspectRef = useRef(aspect);
+  initialCropRef.current = initialCrop;
+  aspectRef.current = aspect;
+
+  useEffect(() => {
+    if (!file || !open) return;
+
+    let isMounted = true;
+    let url: string | null = null;
+    setImageUrl(null);
+    setImageSize(null);
+    setCrop(null);
+
+    // The crop is in upright source pixels, so the preview must be upright
+    // too; its own (smaller) size doesn't matter since it's stretched to fit
+    const loadPreview = async () => {
+      try {
+        const [previewUrl, { width, height }] = await Promise.all([
+          createThumbnailUrl(file, CROP_PREVIEW_SIZE),
+          getFileDetails(file),
+        ]);
+        url = previewUrl;
+        if (!isMounted) {
+          URL.revokeObjectURL(previewUrl);
+          return;
+        }
+
+        setImageUrl(previewUrl);
+        setImageSize({ width, height });
+        const startCrop = initialCropRef.current;
+        if (startCrop) {
+          setCrop(startCrop);
+          setZoom(getCropZoom(startCrop, width, height));
+        } else {
+          setCrop(getCropAroundPoint(width, height, aspectRef.current, 0.5, 0.5));
+          setZoom(1);
+        }
+      } catch (error) {
+        console.error('Failed to load crop preview:', error);
+      }
+    };
+
+    loadPreview();
+
+    return () => {
+      isMounted = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file, open]);
+
+  const focusOn = useCallback((focusX: number, focusY: number, nextZoom: number) => {
+    if (!imageSize) return;
+    setCrop(getCropAroundPoint(imageSize.width, imageSize.height, aspect, focusX, focusY, nextZoom));
+  }, [imageSize, aspect]);
+
+  const handleZoomChange = ([value]: number[]) => {
+    if (!crop) return;
+    setZoom(value);
+    focusOn(crop.x + crop.width / 2, crop.y + crop.height / 2, value);
+  };
+
+  // Clicking outside the crop moves its center (the focal point) there
+  const handleFrameClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget && !(e.target instanceof HTMLImageElement)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    focusOn((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height, zoom);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      startCrop: crop,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || drag.pointerId !== e.pointerId || !frame) return;
+
+    const rect = frame.getBoundingClientRect();
+    setCrop(clampCrop({
+      ...drag.startCrop,
+      x: drag.startCrop.x + (e.clientX - drag.startX) / rect.width,
+      y: drag.startCrop.y + (e.clientY - drag.startY) / rect.height,
+    }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) {
+      dragRef.current = null;
+    }
+  };
+
+  const handleReset = () => {
+    onApply(undefined);
+    onOpenChange(false);
+  };
+
+  const handleApply = () => {
+    if (crop) {
+      onApply(crop);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Recorte e ponto focal</DialogTitle>
+          <DialogDescription>
+            Arraste o retângulo ou clique na imagem para centralizar o recorte. Proporção fixa em {aspectLabel}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center rounded-lg bg-secondary/50 p-2">
+          {imageUrl && (
+            <div
+              ref={frameRef}
+              className="relative inline-block overflow-hidden cursor-crosshair select-none"
+              onClick={handleFrameClick}
+            >
+              <img
+                src={imageUrl}
+                alt={file?.name}
+                draggable={false}
+                className="block max-h-[60vh] w-auto max-w-full"
+              />
+              {crop && (
+                <div
+                  className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] cursor-move touch-none"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                  }}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                >
+                  <Crosshair className="absolute left-1/2 top-1/2 h-5 w-5 -translate-x-1/2 -translate-y-1/2 text-white drop-shadow" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Zoom</Label>
+          <Slider
+            min={1}
+            max={MAX_ZOOM}
+            step={0.05}
+            value={[zoom]}
+            onValueChange={handleZoomChange}
+            disabled={!crop}
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restaurar automático
+          </Button>
+          <Button onClick={handleApply} disabled={!crop}>
+            Aplicar recorte
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CropEditorDialog;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { FileText } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  ASSEMBLY_GUIDE_SUFFIX,
+  formatFilename,
+  getFilenameTemplateError,
+  getFilenameTokens,
+  type FilenameTemplateKind,
+  type FilenameTemplates,
+} from '@/utils/filenameTemplate';
+
+interface FilenameSettingsProps {
+  templates: FilenameTemplates;
+  onChange: (templates: FilenameTemplates) => void;
+  /** Mosaics are downloaded as pieces, so their templates are the ones shown */
+  isMosaicMode?: boolean;
+  /** Assembly guides already print the piece names, so they can't change */
+  pieceTemplateLocked?: boolean;
+  /** Values the example name is built from */
+  exampleWidth: number;
+  exampleHeight: number;
+  presetName: string;
+}
+
+interface TemplateFieldProps {
+  id: string;
+  label: string;
+  template: string;
+  kind: FilenameTemplateKind;
+  /** Example names for a usable template */
+  getExamples: (template: string) => string[];
+  onCommit: (template: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Input for one template, committed on blur or Enter once it is usable
+ */
+const TemplateField: React.FC<TemplateFieldProps> = ({
+  id,
+  label,
+  template,
+  kind,
+  getExamples,
+  onCommit,
+  disabled = false
+}) => {
+  const [value, setValue] = useState(template);
+
+  useEffect(() => {
+    setValue(template);
+  }, [template]);
+
+  const commit = () => {
+    if (value === template) return;
+
+    const error = getFilenameTemplateError(value, kind);
+    if (error) {
+      toast.error(error);
+      setValue(template);
+      return;
+    }
+    onCommit(value);
+  };
+
+  // The example follows what is typed, as long as it is usable
+  const examples = getExamples(getFilenameTemplateError(value, kind) ? template : value);
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs font-medium">{label}</Label>
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        spellCheck={false}
+        disabled={disabled}
+        className="h-9 font-mono text-xs"
+      />
+      <p className="text-xs text-muted-foreground break-all">
+        Exemplo: <span className="font-medium text-foreground">{examples.join(', ')}</span>
+      </p>
+    </div>
+  );
+};
+
+const FilenameSettings: React.FC<FilenameSettingsProps> = ({
+  templates,
+  onChange,
+  isMosaicMode = false,
+  pieceTemplateLocked = false,
+  exampleWidth,
+  exampleHeight,
+  presetName
+}) => {
+  const kind: FilenameTemplateKind = isMosaicMode ? 'piece' : 'image';
+  const exampleValues = {
+    name: 'Minha foto',
+    index: 1,
+    width: exampleWidth,
+    height: exampleHeight,
+    preset: presetName,
+    date: new Date(),
+    ext: 'jpg',
+  };
+  const update = (changed: FilenameTemplateKind) => (template: string) => {
+    onChange({ ...templates, [changed]: template });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium flex items-center">
+        <FileText className="h-4 w-4 mr-2 text-primary" />
+        Nomes dos arquivos
+      </Label>
+      <TemplateField
+        id="modelo-nome"
+        label={isMosaicMode ? 'Partes' : 'Imagens'}
+        template={templates[kind]}
+        kind={kind}
+        getExamples={(template) => [
+          formatFilename(template, { ...exampleValues, index: isMosaicMode ? 4 : 1, row: 2, col: 1 }),
+        ]}
+        onCommit={update(kind)}
+        disabled={isMosaicMode && pieceTemplateLocked}
+      />
+      {isMosaicMode && pieceTemplateLocked && (
+        <p className="text-xs text-muted-foreground">
+          Os guias de montagem já mostram estes nomes; limpe a lista para mudá-los.
+        </p>
+      )}
+      {isMosaicMode && (
+        <TemplateField
+          id="modelo-nome-mosaico"
+          label="Mosaico (zip, PDF e guia de montagem)"
+          template={templates.mosaic}
+          kind="mosaic"
+          getExamples={(template) => [
+            formatFilename(template, { ...exampleValues, ext: 'zip' }),
+            formatFilename(`${template}${ASSEMBLY_GUIDE_SUFFIX}`, { ...exampleValues, ext: 'png' }),
+          ]}
+          onCommit={update('mosaic')}
+        />
+      )}
+      <TemplateField
+        id="modelo-nome-lote"
+        label="Lote completo"
+        template={templates.batch}
+        kind="batch"
+        getExamples={(template) => [formatFilename(template, { ...exampleValues, name: '', ext: 'zip' })]}
+        onCommit={update('batch')}
+      />
+      <ul className="text-xs text-muted-foreground grid grid-cols-2 gap-x-2">
+        {getFilenameTokens(kind).map(token => (
+          <li key={token.token}>
+            <code>{`{${token.token}}`}</code> {token.description}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-muted-foreground">
+        Use {'{index:3}'} para completar com zeros. O lote completo não usa {'{name}'} nem {'{index}'}. Acentos e caracteres inválidos viram "_", e nomes repetidos são numerados.
+      </p>
+    </div>
+  );
+};
+
+export default FilenameSettings;
@@ -1,19 +1,47 @@
 
-import React, { useState, useEffect } from 'react';
-import { X, Download, ArrowRight, Info, Grid3X3 } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Download, ArrowRight, Info, Grid3X3, Crop, RotateCcw, SquareSplitHorizontal } from 'lucide-react';
 import { formatFileSize, getFileDetails, createThumbnailUrl } from '@/utils/imageProcessor';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
+import { computeFitPlacement, type FitMode } from '@/utils/fitMode';
+import { getCropPixels, type SourceCrop } from '@/utils/crop';
+import type { EncodingSummary } from '@/utils/encoder';
+import { formatPrintSize, type PrintUnit } from '@/utils/units';
+import { DEFAULT_MOSAIC_GRID, formatGrid, getPieceCount, type MosaicGrid } from '@/utils/mosaicLayout';
 
 interface ImagePreviewProps {
   file: File;
   convertedUrl: string | null;
   onRemove: () => void;
   index: number;
-  status: 'idle' | 'processing' | 'completed' | 'error';
+  status: 'idle' | 'queued' | 'processing' | 'completed' | 'error' | 'cancelled';
   onDownload: () => void;
   isMosaicMode?: boolean;
   mosaicPieceCount?: number;
+  mosaicGrid?: MosaicGrid;
+  targetWidth: number;
+  targetHeight: number;
+  fitMode?: FitMode;
+  crop?: SourceCrop;
+  onEditCrop?: () => void;
+  /** Open the before/after comparison of a finished output */
+  onCompare?: () => void;
+  /** Open the full-size preview of a finished mosaic */
+  onPreviewMosaic?: () => void;
+  /** Final quality and size of the output, once it is done */
+  encoding?: EncodingSummary;
+  /** Stop a queued or running job */
+  onCancel?: () => void;
+  /** Queue a cancelled job again */
+  onRetry?: () => void;
+  /** Whether the batch is paused, so queued items say so */
+  isPaused?: boolean;
+  /** Resolution the output is printed at, to show its physical size */
+  printDpi?: number | null;
+  printUnit?: PrintUnit;
+  /** Pixel size of the assembled mosaic, without the piece margins */
+  mosaicPosterSize?: { totalWidth: number; totalHeight: number };
 }
 
 const ImagePreview: React.FC<ImagePreviewProps> = ({
@@ -24,7 +52,22 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
   status,
   onDownload,
   isMosaicMode = false,
-  mosaicPieceCount = 0
+  mosaicPieceCount = 0,
+  mosaicGrid = DEFAULT_MOSAIC_GRID,
+  targetWidth,
+  targetHeight,
+  fitMode,
+  crop,
+  onEditCrop,
+  onCompare,
+  onPreviewMosaic,
+  encoding,
+  onCancel,
+  onRetry,
+  isPaused = false,
+  printDpi = null,
+  printUnit = 'cm',
+  mosaicPosterSize
 }) => {
   const [thumbnail, setThumbnail] = useState<string | null>(null);
   const [details, setDetails] = useState<{
@@ -36,10 +79,17 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
 
   useEffect(() => {
     let isMounted = true;
+    let url: string | null = null;
 
     const loadImage = async () => {
       try {
-        const url = await createThumbnailUrl(file);
+        const thumbnailUrl = await createThumbnailUrl(file);
+        // Unmounted while the thumbnail was made; the cleanup had nothing to revoke
+        if (!isMounted) {
+          URL.revokeObjectURL(thumbnailUrl);
+          return;
+        }
+        url = thumbnailUrl;
         const fileDetails = await getFileDetails(file);
         
         if (isMounted) {
@@ -59,15 +109,65 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
 
     return () => {
       isMounted = false;
+      if (url) URL.revokeObjectURL(url);
     };
   }, [file]);
 
+  // Real output size of a single conversion, which depends on the fit mode
+  const outputSize = useMemo(() => {
+    if (encoding) return { width: encoding.width, height: encoding.height };
+    if (!details) return { width: targetWidth, height: targetHeight };
+    const placement = computeFitPlacement(
+      details.width,
+      details.height,
+      targetWidth,
+      targetHeight,
+      fitMode,
+      crop ? getCropPixels(crop, details.width, details.height) : undefined
+    );
+    return { width: placement.canvasWidth, height: placement.canvasHeight };
+  }, [details, targetWidth, targetHeight, fitMode, crop, encoding]);
+
+  const cancelButton = onCancel && (
+    <button
+      onClick={onCancel}
+      className="rounded-full bg-black/50 px-2 py-0.5 text-xs font-medium text-white hover:bg-black/70 transition-colors"
+    >
+      Cancelar
+    </button>
+  );
+
   const getStatusIndicator = () => {
     switch (status) {
+      case 'queued':
+        return (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/20">
+            <span className="rounded-full bg-black/50 px-2 py-0.5 text-xs font-medium text-white">
+              {isPaused ? 'Pausado' : 'Na fila'}
+            </span>
+            {cancelButton}
+          </div>
+        );
       case 'processing':
         return (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/30 backdrop-blur-sm">
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/30 backdrop-blur-sm">
             <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            {cancelButton}
+          </div>
+        );
+      case 'cancelled':
+        return (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/40">
+            <span className="text-white font-medium">Cancelada</span>
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="flex items-center rounded-full bg-black/50 px-2 py-0.5 text-xs font-medium text-white hover:bg-black/70 transition-colors"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Processar de novo
+              </button>
+            )}
           </div>
         );
       case 'error':
@@ -95,13 +195,28 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
       <button 
         className={cn(
           "absolute top-2 right-2 z-10 rounded-full p-1 transition-all bg-black/30 hover:bg-black/50 text-white",
-          isHovering || status === 'error' ? "opacity-100" : "opacity-0"
+          isHovering || status === 'error' || status === 'cancelled' ? "opacity-100" : "opacity-0"
         )}
         onClick={onRemove}
       >
         <X className="w-4 h-4" />
       </button>
       
+      {onEditCrop && status !== 'processing' && status !== 'queued' && (
+        <button 
+          className={cn(
+            "absolute top-2 left-2 z-10 rounded-full p-1 transition-all bg-black/30 hover:bg-black/50 text-white",
+            isHovering || crop ? "opacity-100" : "opacity-0",
+            crop && "bg-primary/80 hover:bg-primary"
+          )}
+          onClick={onEditCrop}
+          aria-label="Editar recorte"
+          title={crop ? 'Recorte personalizado' : 'Editar recorte'}
+        >
+          <Crop className="w-4 h-4" />
+        </button>
+      )}
+      
       <div className="flex flex-col h-full">
         <div className="relative aspect-square w-full overflow-hidden">
           {thumbnail ? (
@@ -112,8 +227,14 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
                 className="object-cover w-full h-full transition-transform duration-300 hover:scale-105"
               />
               {isMosaicMode && status === 'completed' && (
-                <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 opacity-60 pointer-events-none">
-                  {Array.from({ length: 9 }).map((_, i) => (
+                <div
+                  className="absolute inset-0 grid opacity-60 pointer-events-none"
+                  style={{
+                    gridTemplateColumns: `repeat(${mosaicGrid.cols}, minmax(0, 1fr))`,
+                    gridTemplateRows: `repeat(${mosaicGrid.rows}, minmax(0, 1fr))`
+                  }}
+                >
+                  {Array.from({ length: getPieceCount(mosaicGrid) }).map((_, i) => (
                     <div key={i} className="border border-white/50 flex items-center justify-center">
                       <span className="bg-black/50 text-white text-xs font-bold w-5 h-5 rounded-full flex items-center justify-center">
                         {i + 1}
@@ -139,13 +260,35 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
             </h3>
             
             {status === 'completed' && (
-              <button 
-                onClick={onDownload}
-                className="p-1 text-primary hover:text-primary/80 transition-colors"
-                aria-label="Download image"
-              >
-                <Download className="w-4 h-4" />
-              </button>
+              <div className="flex items-center">
+                {onCompare && !isMosaicMode && convertedUrl && (
+                  <button
+                    onClick={onCompare}
+                    className="p-1 text-primary hover:text-primary/80 transition-colors"
+                    aria-label="Comparar antes e depois"
+                    title="Comparar antes e depois"
+                  >
+                    <SquareSplitHorizontal className="w-4 h-4" />
+                  </button>
+                )}
+                {onPreviewMosaic && isMosaicMode && (
+                  <button
+                    onClick={onPreviewMosaic}
+                    className="p-1 text-primary hover:text-primary/80 transition-colors"
+                    aria-label="Ver mosaico"
+                    title="Ver mosaico e partes"
+                  >
+                    <Grid3X3 className="w-4 h-4" />
+                  </button>
+                )}
+                <button 
+                  onClick={onDownload}
+                  className="p-1 text-primary hover:text-primary/80 transition-colors"
+                  aria-label="Download image"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              </div>
             )}
           </div>
           
@@ -161,10 +304,10 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
                   {isMosaicMode ? (
                     <Badge variant="outline" className="text-[10px] font-medium flex items-center gap-0.5 py-0 h-4">
                       <Grid3X3 className="w-3 h-3" />
-                      <span>3×3</span>
+                      <span>{formatGrid(mosaicGrid)}</span>
                     </Badge>
                   ) : (
-                    <span className="text-primary font-medium">2050×2994</span>
+                    <span className="text-primary font-medium">{outputSize.width}×{outputSize.height}</span>
                   )}
                 </>
               )}
@@ -173,7 +316,37 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({
           
           {isMosaicMode && status === 'completed' && (
             <div className="text-xs text-muted-foreground">
-              <span className="font-medium text-primary">9</span> partes de 2050×2994
+              <span className="font-medium text-primary">{mosaicPieceCount || getPieceCount(mosaicGrid)}</span> partes de {encoding?.width ?? targetWidth}×{encoding?.height ?? targetHeight}
+            </div>
+          )}
+          
+          {printDpi && (
+            <div className="text-xs text-muted-foreground">
+              {isMosaicMode && mosaicPosterSize ? (
+                <>
+                  Montado:{' '}
+                  <span className="font-medium text-foreground">
+                    {formatPrintSize(mosaicPosterSize.totalWidth, mosaicPosterSize.totalHeight, printDpi, printUnit)}
+                  </span>
+                </>
+              ) : (
+                <>
+                  Impressão:{' '}
+                  <span className="font-medium text-foreground">
+                    {formatPrintSize(outputSize.width, outputSize.height, printDpi, printUnit)}
+                  </span>
+                </>
+              )}
+              {' a '}{printDpi} dpi
+            </div>
+          )}
+          
+          {status === 'completed' && encoding && (
+            <div className="text-xs text-muted-foreground">
+              {isMosaicMode ? 'Maior parte: ' : 'Saída: '}
+              <span className="font-medium text-foreground">{formatFileSize(encoding.size)}</span>
+              {' • '}qualidade {Math.round(encoding.quality * 100)}%
+              {encoding.resized && <span className="text-amber-600"> • dimensões reduzidas</span>}
             </div>
           )}
         </div>
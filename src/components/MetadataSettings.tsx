@@ -0,0 +1,86 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  METADATA_MODES,
+  type MetadataMode,
+  type MetadataSettings as MetadataSettingsValue,
+} from '@/utils/metadata';
+import { DPI_OPTIONS } from '@/utils/units';
+
+const NO_DPI = 'none';
+
+interface MetadataSettingsProps {
+  settings: MetadataSettingsValue;
+  onChange: (settings: MetadataSettingsValue) => void;
+  /** Resolution set by the print size, which overrides the one chosen here */
+  printDpi?: number;
+  disabled?: boolean;
+}
+
+const MetadataSettings: React.FC<MetadataSettingsProps> = ({
+  settings,
+  onChange,
+  printDpi,
+  disabled = false
+}) => {
+  const dpi = printDpi ?? settings.dpi;
+
+  const mode = METADATA_MODES.find(candidate => candidate.value === settings.mode);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Metadados</Label>
+      <div className="grid grid-cols-[1fr_auto] gap-2">
+        <Select
+          value={settings.mode}
+          onValueChange={(value) => onChange({ ...settings, mode: value as MetadataMode })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METADATA_MODES.map(candidate => (
+              <SelectItem key={candidate.value} value={candidate.value}>
+                {candidate.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={dpi ? String(dpi) : NO_DPI}
+          onValueChange={(value) => onChange({ ...settings, dpi: value === NO_DPI ? null : Number(value) })}
+          disabled={disabled || printDpi !== undefined}
+        >
+          <SelectTrigger className="h-9 w-28" aria-label="Resolução de impressão">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DPI_OPTIONS.map(dpi => (
+              <SelectItem key={dpi} value={String(dpi)}>
+                {dpi} dpi
+              </SelectItem>
+            ))}
+            <SelectItem value={NO_DPI}>Sem dpi</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {mode && (
+        <p className="text-xs text-muted-foreground">
+          {mode.description} A resolução vai no cabeçalho JPEG e PNG (em WebP, só junto com o EXIF).
+          {printDpi !== undefined && ' Com tamanho de impressão, a resolução é a do papel.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MetadataSettings;
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, Maximize, Scan } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+import { isAbortError } from '@/utils/abort';
+import type { PixelRect } from '@/utils/crop';
+import { formatGrid, getPieceCode, type MosaicLayout } from '@/utils/mosaicLayout';
+import { useZoomPan } from '@/hooks/use-zoom-pan';
+import ZoomControls from '@/components/ZoomControls';
+
+/** Pieces on each side of the current one that are decoded ahead */
+const PIECE_PRELOAD = 1;
+
+interface MosaicPreviewDialogProps {
+  /** Downscaled composed poster, from the same renderer as the pieces */
+  renderPoster: ((signal: AbortSignal) => Promise<Blob>) | null;
+  /** Encoded pieces, in row-major order */
+  pieces?: Blob[];
+  /** Layout the pieces were cut with */
+  layout: MosaicLayout | null;
+  /** Real size of every piece, which a size limit may have reduced */
+  pieceWidth?: number;
+  pieceHeight?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * The composed poster with its real cut lines, and a viewer that pages
+ * through the pieces at full resolution
+ */
+const MosaicPreviewDialog: React.FC<MosaicPreviewDialogProps> = ({
+  renderPoster,
+  pieces,
+  layout,
+  pieceWidth,
+  pieceHeight,
+  open,
+  onOpenChange
+}) => {
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  const [posterFailed, setPosterFailed] = useState(false);
+  const [pieceUrls, setPieceUrls] = useState<string[]>([]);
+  // Piece the viewer opened at, or null while the poster is shown
+  const [viewerStart, setViewerStart] = useState<number | null>(null);
+  const [currentPiece, setCurrentPiece] = useState(0);
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>();
+  const [actualSize, setActualSize] = useState(false);
+  const zoomPan = useZoomPan(layout?.totalWidth ?? null, layout?.totalHeight ?? null);
+  const { base, view, contentStyle, imageRendering } = zoomPan;
+
+  useEffect(() => {
+    if (!renderPoster || !open) return;
+
+    const controller = new AbortController();
+    let url: string | null = null;
+    setPosterUrl(null);
+    setPosterFailed(false);
+    setViewerStart(null);
+
+    renderPoster(controller.signal)
+      .then((poster) => {
+        if (controller.signal.aborted) return;
+        url = URL.createObjectURL(poster);
+        setPosterUrl(url);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error('Failed to render mosaic preview:', error);
+        setPosterFailed(true);
+      });
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [renderPoster, open]);
+
+  useEffect(() => {
+    if (!open || !pieces) {
+      setPieceUrls([]);
+      return;
+    }
+
+    const urls = pieces.map(piece => URL.createObjectURL(piece));
+    setPieceUrls(urls);
+
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [pieces, open]);
+
+  useEffect(() => {
+    if (!carouselApi) return;
+
+    const handleSelect = () => setCurrentPiece(carouselApi.selectedScrollSnap());
+    handleSelect();
+    carouselApi.on('select', handleSelect);
+    return () => {
+      carouselApi.off('select', handleSelect);
+    };
+  }, [carouselApi]);
+
+  const openPiece = (index: number) => {
+    setCurrentPiece(index);
+    setViewerStart(index);
+  };
+
+  /** A region of the poster in viewport pixels, so lines keep their width at any zoom */
+  const toViewport = (rect: PixelRect): React.CSSProperties => {
+    if (!layout || !base) return {};
+    const scale = (base.width * view.zoom) / layout.totalWidth;
+    return {
+      left: view.panX + rect.x * scale,
+      top: view.panY + rect.y * scale,
+      width: rect.width * scale,
+      height: rect.height * scale,
+    };
+  };
+
+  const overlapStrips: PixelRect[] = [];
+  if (layout && layout.overlap > 0) {
+    const stepX = layout.pieceWidth - layout.margin * 2 - layout.overlap;
+    const stepY = layout.pieceHeight - layout.margin * 2 - layout.overlap;
+    for (let col = 1; col < layout.grid.cols; col++) {
+      overlapStrips.push({ x: col * stepX, y: 0, width: layout.overlap, height: layout.totalHeight });
+    }
+    for (let row = 1; row < layout.grid.rows; row++) {
+      overlapStrips.push({ x: 0, y: row * stepY, width: layout.totalWidth, height: layout.overlap });
+    }
+  }
+
+  const viewerPiece = layout?.pieces[currentPiece];
+  const displayWidth = pieceWidth ?? layout?.pieceWidth ?? 0;
+  const displayHeight = pieceHeight ?? layout?.pieceHeight ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] w-[95vw] h-[92vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {viewerStart === null || !viewerPiece
+              ? `Pré-visualização do mosaico${layout ? ` ${formatGrid(layout.grid)}` : ''}`
+              : `Parte ${getPieceCode(viewerPiece.row, viewerPiece.col)} · ${currentPiece + 1} de ${pieceUrls.length}`}
+          </DialogTitle>
+          <DialogDescription>
+            {viewerStart === null
+              ? 'Linhas de corte reais sobre o pôster como ele é impresso. Clique em uma parte para vê-la em tamanho real.'
+              : 'Use as setas para passar pelas partes.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {viewerStart === null ? (
+          <div
+            ref={zoomPan.viewportRef}
+            className="relative flex-1 min-h-0 overflow-hidden rounded-lg bg-secondary/50 cursor-grab active:cursor-grabbing select-none touch-none"
+            {...zoomPan.viewportHandlers}
+          >
+            {!posterUrl && (
+              <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                {posterFailed ? 'Não foi possível montar o pôster.' : 'Montando o pôster...'}
+              </p>
+            )}
+            {layout && contentStyle && posterUrl && (
+              <>
+                <div className="absolute left-0 top-0 origin-top-left" style={contentStyle}>
+                  <img
+                    src={posterUrl}
+                    alt="Pôster montado"
+                    draggable={false}
+                    className="absolute inset-0 w-full h-full"
+                    style={{ imageRendering }}
+                  />
+                </div>
+
+                {/* Strips printed on both neighbouring pieces */}
+                {overlapStrips.map((strip, i) => (
+                  <div
+                    key={i}
+                    className="absolute bg-amber-400/30 pointer-events-none"
+                    style={toViewport(strip)}
+                  />
+                ))}
+
+                {layout.pieces.map(piece => (
+                  <button
+                    key={piece.index}
+                    type="button"
+                    className="absolute flex items-center justify-center border border-dashed border-white/90 hover:bg-primary/20 focus-visible:outline-none focus-visible:bg-primary/20 transition-colors"
+                    style={toViewport(piece)}
+                    onClick={() => openPiece(piece.index)}
+                    disabled={!pieceUrls[piece.index]}
+                    aria-label={`Ver parte ${getPieceCode(piece.row, piece.col)}`}
+                  >
+                    <span className="bg-black/50 text-white text-xs font-bold rounded-full px-2 py-0.5">
+                      {getPieceCode(piece.row, piece.col)}
+                    </span>
+                  </button>
+                ))}
+              </>
+            )}
+          </div>
+        ) : (
+          <Carousel
+            className="flex-1 min-h-0"
+            opts={{ startIndex: viewerStart }}
+            setApi={setCarouselApi}
+          >
+            <CarouselContent>
+              {pieceUrls.map((url, i) => (
+                <CarouselItem key={url}>
+                  <div className="h-[65vh] flex overflow-auto rounded-lg bg-secondary/50">
+                    {Math.abs(i - currentPiece) <= PIECE_PRELOAD && (
+                      <img
+                        src={url}
+                        alt={`Parte ${i + 1}`}
+                        draggable={false}
+                        className={cn('m-auto', actualSize ? 'max-w-none' : 'max-w-full max-h-full object-contain')}
+                        style={actualSize ? { width: displayWidth / window.devicePixelRatio } : undefined}
+                      />
+                    )}
+                  </div>
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+          </Carousel>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="text-xs text-muted-foreground">
+            {layout && (
+              <>
+                Pôster {layout.totalWidth}×{layout.totalHeight}
+                {' • '}{layout.pieces.length} partes de {displayWidth}×{displayHeight}
+                {layout.overlap > 0 && ` • sobreposição de ${layout.overlap}px`}
+              </>
+            )}
+          </div>
+          {viewerStart === null ? (
+            <ZoomControls zoomPan={zoomPan} />
+          ) : (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setViewerStart(null)}>
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Ver pôster
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setActualSize(!actualSize)}>
+                {actualSize ? (
+                  <>
+                    <Maximize className="w-4 h-4 mr-2" />
+                    Ajustar
+                  </>
+                ) : (
+                  <>
+                    <Scan className="w-4 h-4 mr-2" />
+                    100%
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MosaicPreviewDialog;
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getMarkMargin,
+  getMaxOverlap,
+  getPieceCount,
+  hasPrintMarks,
+  isValidGridSize,
+  MAX_MOSAIC_GRID_SIZE,
+  type MosaicConfig,
+} from '@/utils/mosaicLayout';
+import { DEFAULT_PRINT_DPI, lengthToPixels, type LengthUnit } from '@/utils/units';
+
+const markOptions: {
+  key: 'cropMarks' | 'registrationMarks' | 'pieceLabels';
+  id: string;
+  label: string;
+}[] = [
+  { key: 'cropMarks', id: 'marcas-corte', label: 'Marcas de corte' },
+  { key: 'registrationMarks', id: 'marcas-registro', label: 'Marcas de registro' },
+  { key: 'pieceLabels', id: 'rotulos-partes', label: 'Rótulo em cada parte' },
+];
+
+interface MosaicSettingsProps {
+  config: MosaicConfig;
+  onChange: (config: MosaicConfig) => void;
+  pieceWidth: number;
+  pieceHeight: number;
+  /** Resolution used to turn a physical overlap into pixels */
+  dpi?: number;
+  disabled?: boolean;
+}
+
+const MosaicSettings: React.FC<MosaicSettingsProps> = ({
+  config,
+  onChange,
+  pieceWidth,
+  pieceHeight,
+  dpi = DEFAULT_PRINT_DPI,
+  disabled = false
+}) => {
+  const { grid } = config;
+  const [rows, setRows] = useState(String(grid.rows));
+  const [cols, setCols] = useState(String(grid.cols));
+  const [overlap, setOverlap] = useState(String(config.overlap));
+
+  useEffect(() => {
+    setRows(String(config.grid.rows));
+    setCols(String(config.grid.cols));
+    setOverlap(String(config.overlap));
+  }, [config]);
+
+  const overlapPx = lengthToPixels(config.overlap, config.overlapUnit, dpi);
+
+  const commitGrid = () => {
+    const nextGrid = { rows: Number(rows), cols: Number(cols) };
+
+    if (!isValidGridSize(nextGrid.rows) || !isValidGridSize(nextGrid.cols)) {
+      setRows(String(grid.rows));
+      setCols(String(grid.cols));
+      return;
+    }
+
+    if (nextGrid.rows !== grid.rows || nextGrid.cols !== grid.cols) {
+      onChange({ ...config, grid: nextGrid });
+    }
+  };
+
+  const commitOverlap = (value: number, unit: LengthUnit) => {
+    const margin = hasPrintMarks(config) ? getMarkMargin(pieceWidth, pieceHeight) : 0;
+    const maxOverlap = getMaxOverlap(pieceWidth, pieceHeight, margin);
+
+    if (!Number.isFinite(value) || value < 0 || lengthToPixels(value, unit, dpi) > maxOverlap) {
+      toast.error(`A sobreposição deve ficar entre 0 e ${maxOverlap}px`);
+      setOverlap(String(config.overlap));
+      return;
+    }
+
+    if (value !== config.overlap || unit !== config.overlapUnit) {
+      onChange({
+        ...config,
+        overlap: value,
+        overlapUnit: unit,
+        glueTabs: value > 0 && config.glueTabs,
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Grade do mosaico</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={MAX_MOSAIC_GRID_SIZE}
+            value={rows}
+            onChange={(e) => setRows(e.target.value)}
+            onBlur={commitGrid}
+            disabled={disabled}
+            aria-label="Linhas"
+            className="h-9"
+          />
+          <span className="text-muted-foreground">×</span>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_MOSAIC_GRID_SIZE}
+            value={cols}
+            onChange={(e) => setCols(e.target.value)}
+            onBlur={commitGrid}
+            disabled={disabled}
+            aria-label="Colunas"
+            className="h-9"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {grid.rows} {grid.rows === 1 ? 'linha' : 'linhas'} × {grid.cols} {grid.cols === 1 ? 'coluna' : 'colunas'} = {getPieceCount(grid)} partes
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Sobreposição</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            value={overlap}
+            onChange={(e) => setOverlap(e.target.value)}
+            onBlur={() => commitOverlap(Number(overlap), config.overlapUnit)}
+            disabled={disabled}
+            aria-label="Sobreposição"
+            className="h-9"
+          />
+          <Select
+            value={config.overlapUnit}
+            onValueChange={(unit) => commitOverlap(config.overlap, unit as LengthUnit)}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-9 w-20 shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mm">mm</SelectItem>
+              <SelectItem value="px">px</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {config.overlapUnit === 'mm' && config.overlap > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {overlapPx}px a {dpi} dpi
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="abas-cola"
+          checked={config.glueTabs}
+          onCheckedChange={(glueTabs) => onChange({ ...config, glueTabs })}
+          disabled={disabled || config.overlap <= 0}
+        />
+        <Label htmlFor="abas-cola" className="text-sm cursor-pointer">
+          Marcar abas de cola
+        </Label>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Marcas de impressão</Label>
+        {markOptions.map(({ key, id, label }) => (
+          <div key={key} className="flex items-center space-x-2">
+            <Switch
+              id={id}
+              checked={config[key]}
+              onCheckedChange={(checked) => onChange({ ...config, [key]: checked })}
+              disabled={disabled}
+            />
+            <Label htmlFor={id} className="text-sm cursor-pointer">
+              {label}
+            </Label>
+          </div>
+        ))}
+        {hasPrintMarks(config) && (
+          <p className="text-xs text-muted-foreground">
+            As marcas ficam numa margem branca de {getMarkMargin(pieceWidth, pieceHeight)}px em volta de cada parte.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MosaicSettings;
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEFAULT_MAX_BYTES,
+  OUTPUT_FORMATS,
+  isEncoderSupported,
+  isLossyFormat,
+  type OutputFormat,
+  type OutputSettings as OutputSettingsValue,
+} from '@/utils/outputFormat';
+
+interface OutputSettingsProps {
+  settings: OutputSettingsValue;
+  onChange: (settings: OutputSettingsValue) => void;
+  disabled?: boolean;
+}
+
+const OutputSettings: React.FC<OutputSettingsProps> = ({
+  settings,
+  onChange,
+  disabled = false
+}) => {
+  const [unsupported, setUnsupported] = useState<OutputFormat[]>([]);
+  const [maxMegabytes, setMaxMegabytes] = useState(
+    String((settings.maxBytes ?? DEFAULT_MAX_BYTES) / (1024 * 1024))
+  );
+
+  useEffect(() => {
+    if (settings.maxBytes) {
+      setMaxMegabytes(String(settings.maxBytes / (1024 * 1024)));
+    }
+  }, [settings.maxBytes]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      OUTPUT_FORMATS
+        .filter(format => format.value !== 'original')
+        .map(async format => ({ value: format.value, supported: await isEncoderSupported(format.value) }))
+    ).then(results => {
+      if (!cancelled) {
+        setUnsupported(results.filter(result => !result.supported).map(result => result.value));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const lossy = isLossyFormat(settings.format);
+
+  const commitMaxSize = () => {
+    const megabytes = Number(maxMegabytes);
+    if (!Number.isFinite(megabytes) || megabytes <= 0) {
+      toast.error('Informe um tamanho máximo maior que zero');
+      setMaxMegabytes(String((settings.maxBytes ?? DEFAULT_MAX_BYTES) / (1024 * 1024)));
+      return;
+    }
+    onChange({ ...settings, maxBytes: Math.round(megabytes * 1024 * 1024) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Formato de saída</Label>
+      <Select
+        value={settings.format}
+        onValueChange={(format) => onChange({ ...settings, format: format as OutputFormat })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OUTPUT_FORMATS.map(format => (
+            <SelectItem
+              key={format.value}
+              value={format.value}
+              disabled={unsupported.includes(format.value)}
+            >
+              {format.label}
+              {unsupported.includes(format.value) && ' (não suportado neste navegador)'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center justify-between pt-1">
+        <Label className="text-sm font-medium">Qualidade</Label>
+        <span className="text-xs text-muted-foreground">
+          {lossy ? `${Math.round(settings.quality * 100)}%` : 'Sem perdas'}
+        </span>
+      </div>
+      <Slider
+        min={0.1}
+        max={1}
+        step={0.01}
+        value={[settings.quality]}
+        onValueChange={([quality]) => onChange({ ...settings, quality })}
+        disabled={disabled || !lossy}
+      />
+      {settings.format === 'original' && (
+        <p className="text-xs text-muted-foreground">
+          A qualidade não se aplica a originais PNG. Formatos não suportados são salvos como JPEG.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2 pt-1">
+        <Switch
+          id="limite-tamanho"
+          checked={settings.maxBytes !== null}
+          onCheckedChange={(checked) => onChange({
+            ...settings,
+            maxBytes: checked ? Math.round(Number(maxMegabytes) * 1024 * 1024) || DEFAULT_MAX_BYTES : null,
+          })}
+          disabled={disabled}
+        />
+        <Label htmlFor="limite-tamanho" className="text-sm cursor-pointer">
+          Limitar tamanho do arquivo
+        </Label>
+      </div>
+      {settings.maxBytes !== null && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0.01}
+              step={0.1}
+              value={maxMegabytes}
+              onChange={(e) => setMaxMegabytes(e.target.value)}
+              onBlur={commitMaxSize}
+              disabled={disabled}
+              className="h-9"
+              aria-label="Tamanho máximo em MB"
+            />
+            <span className="text-sm text-muted-foreground">MB</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A qualidade é reduzida até o arquivo caber; se não bastar, as dimensões também são reduzidas.
+            {!lossy && ' Em PNG só as dimensões podem ser reduzidas.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutputSettings;
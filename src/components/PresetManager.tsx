@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { FileDown, FileUp, Plus, Settings2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { downloadBlob } from '@/utils/imageProcessor';
+import {
+  formatPresetSize,
+  isValidPresetDimension,
+  parsePresets,
+  serializePresets,
+  MAX_PRESET_DIMENSION,
+  MIN_PRESET_DIMENSION,
+  type SizePreset,
+} from '@/utils/sizePresets';
+
+interface PresetManagerProps {
+  presets: SizePreset[];
+  activePreset: SizePreset;
+  onSelect: (id: string) => void;
+  onAdd: (preset: Omit<SizePreset, 'id'>) => SizePreset;
+  onUpdate: (id: string, changes: Partial<Omit<SizePreset, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onImport: (presets: SizePreset[]) => void;
+  disabled?: boolean;
+}
+
+interface PresetRowProps {
+  preset: SizePreset;
+  canRemove: boolean;
+  onUpdate: PresetManagerProps['onUpdate'];
+  onRemove: PresetManagerProps['onRemove'];
+}
+
+const PresetRow: React.FC<PresetRowProps> = ({ preset, canRemove, onUpdate, onRemove }) => {
+  const [name, setName] = useState(preset.name);
+  const [width, setWidth] = useState(String(preset.width));
+  const [height, setHeight] = useState(String(preset.height));
+
+  useEffect(() => {
+    setName(preset.name);
+    setWidth(String(preset.width));
+    setHeight(String(preset.height));
+  }, [preset]);
+
+  const commit = () => {
+    const trimmedName = name.trim();
+    const parsedWidth = Number(width);
+    const parsedHeight = Number(height);
+
+    if (!trimmedName || !isValidPresetDimension(parsedWidth) || !isValidPresetDimension(parsedHeight)) {
+      toast.error(
+        `Use um nome e dimensões inteiras entre ${MIN_PRESET_DIMENSION} e ${MAX_PRESET_DIMENSION}px`
+      );
+      setName(preset.name);
+      setWidth(String(preset.width));
+      setHeight(String(preset.height));
+      return;
+    }
+
+    if (
+      trimmedName !== preset.name ||
+      parsedWidth !== preset.width ||
+      parsedHeight !== preset.height
+    ) {
+      onUpdate(preset.id, { name: trimmedName, width: parsedWidth, height: parsedHeight });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-[1fr_5rem_5rem_auto] items-center gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commit}
+        aria-label="Nome da predefinição"
+        className="h-8"
+      />
+      <Input
+        type="number"
+        value={width}
+        onChange={(e) => setWidth(e.target.value)}
+        onBlur={commit}
+        aria-label="Largura em pixels"
+        className="h-8"
+      />
+      <Input
+        type="number"
+        value={height}
+        onChange={(e) => setHeight(e.target.value)}
+        onBlur={commit}
+        aria-label="Altura em pixels"
+        className="h-8"
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onRemove(preset.id)}
+        disabled={!canRemove}
+        aria-label="Remover predefinição"
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+const PresetManager: React.FC<PresetManagerProps> = ({
+  presets,
+  activePreset,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onImport,
+  disabled = false,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = () => {
+    onAdd({
+      name: `Nova predefinição ${presets.length + 1}`,
+      width: activePreset.width,
+      height: activePreset.height,
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePresets(presets)], { type: 'application/json' });
+    downloadBlob(blob, 'predefinicoes-tamanho.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresets(await file.text());
+      onImport(imported);
+      toast.success(
+        `${imported.length} ${imported.length === 1 ? 'predefinição importada' : 'predefinições importadas'}`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Falha ao importar predefinições');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Tamanho de saída</Label>
+      <div className="flex items-center gap-2">
+        <Select value={activePreset.id} onValueChange={onSelect} disabled={disabled}>
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.name} ({formatPresetSize(preset)})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              disabled={disabled}
+              aria-label="Gerenciar predefinições"
+            >
+              <Settings2 className="w-4 h-4" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-xl">
+            <DialogHeader>
+              <DialogTitle>Predefinições de tamanho</DialogTitle>
+              <DialogDescription>
+                Largura e altura em pixels. As alterações são salvas neste navegador.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_5rem_5rem_auto] gap-2 text-xs text-muted-foreground">
+                <span>Nome</span>
+                <span>Largura</span>
+                <span>Altura</span>
+                <span className="w-8" />
+              </div>
+              {presets.map(preset => (
+                <PresetRow
+                  key={preset.id}
+                  preset={preset}
+                  canRemove={presets.length > 1}
+                  onUpdate={onUpdate}
+                  onRemove={onRemove}
+                />
+              ))}
+            </div>
+
+            <div className="flex flex-wrap justify-between gap-2">
+              <Button variant="outline" size="sm" onClick={handleAdd}>
+                <Plus className="w-4 h-4 mr-2" />
+                Adicionar
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Importar
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleExport}>
+                  <FileDown className="w-4 h-4 mr-2" />
+                  Exportar
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Printer } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PAPER_SIZES, type PaperOrientation } from '@/utils/paper';
+import {
+  CUSTOM_PAPER_ID,
+  ORIENTATIONS,
+  getPrintArea,
+  getPrintSettingsError,
+  getPrintTarget,
+  type PrintSettings,
+} from '@/utils/printSize';
+import {
+  DPI_OPTIONS,
+  PRINT_UNITS,
+  formatLengthValue,
+  fromMillimetres,
+  getUnitLabel,
+  toMillimetres,
+  type PrintUnit,
+} from '@/utils/units';
+
+interface PrintSizeSettingsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: PrintSettings;
+  onChange: (settings: PrintSettings) => void;
+  /** Each mosaic piece is one sheet */
+  isMosaicMode?: boolean;
+  disabled?: boolean;
+}
+
+/** Input value of a length, without the grouping separators of formatLengthValue */
+const toInputValue = (millimetres: number, unit: PrintUnit) =>
+  String(Math.round(fromMillimetres(millimetres, unit) * 100) / 100);
+
+const PrintSizeSettings: React.FC<PrintSizeSettingsProps> = ({
+  enabled,
+  onEnabledChange,
+  settings,
+  onChange,
+  isMosaicMode = false,
+  disabled = false
+}) => {
+  const [customWidth, setCustomWidth] = useState(toInputValue(settings.customWidthMm, settings.unit));
+  const [customHeight, setCustomHeight] = useState(toInputValue(settings.customHeightMm, settings.unit));
+  const [margin, setMargin] = useState(toInputValue(settings.marginMm, settings.unit));
+
+  const resetInputs = useCallback(() => {
+    setCustomWidth(toInputValue(settings.customWidthMm, settings.unit));
+    setCustomHeight(toInputValue(settings.customHeightMm, settings.unit));
+    setMargin(toInputValue(settings.marginMm, settings.unit));
+  }, [settings]);
+
+  useEffect(resetInputs, [resetInputs]);
+
+  // Every change is checked as a whole, since paper, margins and DPI limit each other
+  const commit = (changes: Partial<PrintSettings>) => {
+    const next = { ...settings, ...changes };
+    const error = getPrintSettingsError(next);
+    if (error) {
+      toast.error(error);
+      resetInputs();
+      return;
+    }
+    onChange(next);
+  };
+
+  const commitLength = (
+    key: 'customWidthMm' | 'customHeightMm' | 'marginMm',
+    value: string
+  ) => {
+    const length = Number(value);
+    const minimum = key === 'marginMm' ? 0 : Number.MIN_VALUE;
+    if (!Number.isFinite(length) || length < minimum) {
+      toast.error('Informe um comprimento válido');
+      resetInputs();
+      return;
+    }
+
+    const millimetres = toMillimetres(length, settings.unit);
+    if (millimetres !== settings[key]) {
+      commit({ [key]: millimetres });
+    }
+  };
+
+  const area = getPrintArea(settings);
+  const target = getPrintTarget(settings);
+  const unitLabel = getUnitLabel(settings.unit);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="tamanho-impressao"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+          disabled={disabled}
+        />
+        <Label htmlFor="tamanho-impressao" className="text-sm font-medium flex items-center cursor-pointer">
+          <Printer className="h-4 w-4 mr-2 text-primary" />
+          Tamanho de impressão
+        </Label>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Papel</Label>
+              <Select
+                value={settings.paperId}
+                onValueChange={(paperId) => commit({ paperId })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAPER_SIZES.map(paper => (
+                    <SelectItem key={paper.id} value={paper.id}>
+                      {paper.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_PAPER_ID}>Personalizado</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Orientação</Label>
+              <Select
+                value={settings.orientation}
+                onValueChange={(orientation) => commit({ orientation: orientation as PaperOrientation })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORIENTATIONS.map(orientation => (
+                    <SelectItem key={orientation.value} value={orientation.value}>
+                      {orientation.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {settings.paperId === CUSTOM_PAPER_ID && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={customWidth}
+                onChange={(e) => setCustomWidth(e.target.value)}
+                onBlur={() => commitLength('customWidthMm', customWidth)}
+                disabled={disabled}
+                aria-label={`Largura do papel em ${unitLabel}`}
+                className="h-9"
+              />
+              <span className="text-muted-foreground">×</span>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={customHeight}
+                onChange={(e) => setCustomHeight(e.target.value)}
+                onBlur={() => commitLength('customHeightMm', customHeight)}
+                disabled={disabled}
+                aria-label={`Altura do papel em ${unitLabel}`}
+                className="h-9"
+              />
+              <span className="text-sm text-muted-foreground">{unitLabel}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Margem</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={margin}
+                onChange={(e) => setMargin(e.target.value)}
+                onBlur={() => commitLength('marginMm', margin)}
+                disabled={disabled}
+                aria-label={`Margem em ${unitLabel}`}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Unidade</Label>
+              <Select
+                value={settings.unit}
+                onValueChange={(unit) => commit({ unit: unit as PrintUnit })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRINT_UNITS.map(unit => (
+                    <SelectItem key={unit.value} value={unit.value}>
+                      {unit.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Resolução</Label>
+              <Select
+                value={String(settings.dpi)}
+                onValueChange={(dpi) => commit({ dpi: Number(dpi) })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DPI_OPTIONS.map(dpi => (
+                    <SelectItem key={dpi} value={String(dpi)}>
+                      {dpi} dpi
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {isMosaicMode ? 'Cada parte: ' : 'Área de impressão: '}
+            {formatLengthValue(area.widthMm, settings.unit)} × {formatLengthValue(area.heightMm, settings.unit)} {unitLabel}
+            {' = '}{target.width}×{target.height}px
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PrintSizeSettings;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { MAX_CONCURRENCY } from '@/utils/scheduler';
+
+interface ProcessingSettingsProps {
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+}
+
+const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
+  concurrency,
+  onConcurrencyChange
+}) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Processamentos simultâneos</Label>
+        <span className="text-xs text-muted-foreground">{concurrency}</span>
+      </div>
+      <Slider
+        min={1}
+        max={MAX_CONCURRENCY}
+        step={1}
+        value={[concurrency]}
+        onValueChange={([value]) => onConcurrencyChange(value)}
+        aria-label="Processamentos simultâneos"
+      />
+      <p className="text-xs text-muted-foreground">
+        Mosaicos grandes esperam memória livre e podem rodar um de cada vez.
+      </p>
+    </div>
+  );
+};
+
+export default ProcessingSettings;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { History, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface RerunBannerProps {
+  /** When the batch was first processed */
+  createdAt: number;
+  imageCount: number;
+  /** The batch's settings are loaded and can be edited before starting */
+  ready: boolean;
+  onStart: () => void;
+  onDiscard: () => void;
+}
+
+const dateFormat = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const RerunBanner: React.FC<RerunBannerProps> = ({
+  createdAt,
+  imageCount,
+  ready,
+  onStart,
+  onDiscard
+}) => {
+  return (
+    <div className="glass-panel rounded-xl p-4 flex flex-wrap items-center justify-between gap-3">
+      <div className="flex items-start gap-3 text-sm">
+        <History className="w-5 h-5 mt-0.5 text-primary shrink-0" />
+        <div>
+          <p className="font-medium">
+            Refazer lote de {dateFormat.format(createdAt)} ({imageCount} {imageCount === 1 ? 'imagem' : 'imagens'})
+          </p>
+          <p className="text-muted-foreground">
+            {ready
+              ? 'As configurações do lote foram carregadas. Ajuste o que quiser e comece.'
+              : 'Remova as imagens atuais para carregar as configurações do lote.'}
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={onDiscard}>
+          <X className="w-4 h-4 mr-2" />
+          Descartar
+        </Button>
+        <Button size="sm" onClick={onStart} disabled={!ready}>
+          <Play className="w-4 h-4 mr-2" />
+          Refazer
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RerunBanner;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  RESAMPLE_FILTERS,
+  RESAMPLE_PRESETS,
+  getResamplePreset,
+  type ResampleFilter,
+  type ResampleOptions,
+} from '@/utils/resample';
+
+const CUSTOM_PRESET = 'custom';
+
+interface ResampleSettingsProps {
+  options: ResampleOptions;
+  onChange: (options: ResampleOptions) => void;
+  disabled?: boolean;
+}
+
+const ResampleSettings: React.FC<ResampleSettingsProps> = ({
+  options,
+  onChange,
+  disabled = false
+}) => {
+  const presetId = getResamplePreset(options) ?? CUSTOM_PRESET;
+  const preset = RESAMPLE_PRESETS.find(candidate => candidate.id === presetId);
+
+  const handlePresetChange = (id: string) => {
+    const selected = RESAMPLE_PRESETS.find(candidate => candidate.id === id);
+    if (selected) {
+      onChange(selected.options);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Qualidade do redimensionamento</Label>
+      <Select value={presetId} onValueChange={handlePresetChange} disabled={disabled}>
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RESAMPLE_PRESETS.map(candidate => (
+            <SelectItem key={candidate.id} value={candidate.id}>
+              {candidate.label}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM_PRESET} disabled>
+            Personalizado
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      {preset && (
+        <p className="text-xs text-muted-foreground">{preset.description}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 pt-1">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Filtro</Label>
+          <Select
+            value={options.filter}
+            onValueChange={(filter) => onChange({ ...options, filter: filter as ResampleFilter })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESAMPLE_FILTERS.map(filter => (
+                <SelectItem key={filter.value} value={filter.value}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">
+            Nitidez: {options.sharpen > 0 ? `${Math.round(options.sharpen * 100)}%` : 'desligada'}
+          </Label>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[options.sharpen]}
+            onValueChange={([sharpen]) => onChange({ ...options, sharpen })}
+            disabled={disabled}
+            className="py-3"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResampleSettings;
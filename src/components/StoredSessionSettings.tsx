@@ -0,0 +1,68 @@
+import React from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { formatFileSize } from '@/utils/imageProcessor';
+import type { StorageUsage } from '@/utils/sessionStore';
+
+/** Share of the quota past which the indicator turns into a warning */
+const LOW_SPACE_RATIO = 0.8;
+
+interface StoredSessionSettingsProps {
+  /** Null while unknown or when the browser won't tell */
+  usage: StorageUsage | null;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const StoredSessionSettings: React.FC<StoredSessionSettingsProps> = ({
+  usage,
+  onClear,
+  disabled = false
+}) => {
+  const ratio = usage ? Math.min(usage.usage / usage.quota, 1) : 0;
+  const lowSpace = ratio >= LOW_SPACE_RATIO;
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium flex items-center">
+        <Database className="h-4 w-4 mr-2 text-primary" />
+        Sessão salva
+      </Label>
+      {usage ? (
+        <>
+          <div className="w-full h-1 bg-secondary rounded-full overflow-hidden">
+            <div
+              className={cn("h-full transition-all duration-300", lowSpace ? "bg-destructive" : "bg-primary")}
+              style={{ width: `${ratio * 100}%` }}
+            />
+          </div>
+          <p className={cn("text-xs", lowSpace ? "text-destructive" : "text-muted-foreground")}>
+            {formatFileSize(usage.usage)} de {formatFileSize(usage.quota)} usados neste navegador
+            {lowSpace && '. Baixe os resultados e limpe a sessão para liberar espaço.'}
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          O navegador não informa o espaço disponível.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Imagens, resultados e configurações são restaurados ao recarregar a página.
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onClear}
+        disabled={disabled}
+        className="w-full group"
+      >
+        <Trash2 className="w-4 h-4 mr-2 group-hover:text-destructive" />
+        Limpar sessão salva
+      </Button>
+    </div>
+  );
+};
+
+export default StoredSessionSettings;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { useZoomPan } from '@/hooks/use-zoom-pan';
+
+interface ZoomControlsProps {
+  zoomPan: ReturnType<typeof useZoomPan>;
+}
+
+/**
+ * Zoom buttons of a zoomable view, with the zoom relative to the real size
+ */
+const ZoomControls: React.FC<ZoomControlsProps> = ({ zoomPan }) => (
+  <div className="flex items-center gap-2">
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={zoomPan.zoomOut}
+      disabled={!zoomPan.canZoomOut}
+      aria-label="Reduzir zoom"
+    >
+      <ZoomOut className="w-4 h-4" />
+    </Button>
+    <span className="w-14 text-center text-sm tabular-nums">{zoomPan.base ? `${zoomPan.zoomPercent}%` : '–'}</span>
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={zoomPan.zoomIn}
+      disabled={!zoomPan.canZoomIn}
+      aria-label="Aumentar zoom"
+    >
+      <ZoomIn className="w-4 h-4" />
+    </Button>
+    <Button variant="outline" size="sm" onClick={zoomPan.fitView} disabled={!zoomPan.base}>
+      <Maximize className="w-4 h-4 mr-2" />
+      Ajustar
+    </Button>
+    <Button variant="outline" size="sm" onClick={zoomPan.showActualSize} disabled={!zoomPan.base}>
+      100%
+    </Button>
+  </div>
+);
+
+export default ZoomControls;
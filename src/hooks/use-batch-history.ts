@@ -0,0 +1,73 @@
+import * as React from "react"
+import { toast } from "sonner"
+import {
+  isQuotaExceededError,
+  isSameStoredImage,
+  type SessionSettings,
+  type StoredImage,
+} from "@/utils/sessionStore"
+import {
+  createBatchId,
+  findHistoryBatchId,
+  saveHistoryBatch,
+  summarizeBatch,
+  type BatchTarget,
+} from "@/utils/history"
+
+/**
+ * Record the queue in the history whenever it settles: once nothing is
+ * waiting or running and something is finished. Emptying the queue closes
+ * the batch, so the next images start a new one.
+ */
+export function useBatchHistory(
+  images: StoredImage[],
+  settings: SessionSettings,
+  target: BatchTarget,
+  enabled: boolean
+) {
+  // Replaced as a whole when a batch closes, so late writes keep their own
+  // id; `recorded` is what the database holds, updated once a write commits
+  const batchRef = React.useRef<{ id: string | null; recorded: Map<string, StoredImage> }>({
+    id: null,
+    recorded: new Map(),
+  })
+  const writesRef = React.useRef<Promise<void>>(Promise.resolve())
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    if (images.length === 0) {
+      batchRef.current = { id: null, recorded: new Map() }
+      return
+    }
+
+    const settled = images.every((image) =>
+      image.status === "completed" || image.status === "error" || image.status === "cancelled"
+    )
+    if (!settled || !images.some((image) => image.status === "completed")) return
+
+    const batch = batchRef.current
+    const summary = summarizeBatch(images, settings, target)
+
+    writesRef.current = writesRef.current
+      .then(async () => {
+        const changed = images.filter((image) => {
+          const previous = batch.recorded.get(image.id)
+          return !previous || !isSameStoredImage(previous, image)
+        })
+        const ids = new Set(images.map((image) => image.id))
+        const removed = [...batch.recorded.keys()].filter((id) => !ids.has(id))
+        if (changed.length === 0 && removed.length === 0) return
+
+        batch.id ??= (await findHistoryBatchId(summary.imageIds)) ?? createBatchId()
+        await saveHistoryBatch(batch.id, summary, changed, removed)
+        batch.recorded = new Map(images.map((image) => [image.id, image]))
+      })
+      .catch((error) => {
+        console.error("Failed to record batch history:", error)
+        toast.error(isQuotaExceededError(error)
+          ? "Sem espaço para guardar o lote no histórico. Baixe os resultados antes de sair da página."
+          : "Não foi possível guardar o lote no histórico.")
+      })
+  }, [images, settings, target, enabled])
+}
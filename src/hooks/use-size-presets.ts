@@ -0,0 +1,70 @@
+import * as React from "react"
+import {
+  DEFAULT_PRESET,
+  createPresetId,
+  loadPresetState,
+  savePresetState,
+  type SizePreset,
+  type SizePresetState,
+} from "@/utils/sizePresets"
+
+export function useSizePresets() {
+  const [state, setState] = React.useState<SizePresetState>(loadPresetState)
+
+  React.useEffect(() => {
+    savePresetState(state)
+  }, [state])
+
+  const activePreset = React.useMemo(
+    () => state.presets.find((preset) => preset.id === state.activeId) ?? state.presets[0] ?? DEFAULT_PRESET,
+    [state]
+  )
+
+  const selectPreset = React.useCallback((id: string) => {
+    setState((current) =>
+      current.presets.some((preset) => preset.id === id)
+        ? { ...current, activeId: id }
+        : current
+    )
+  }, [])
+
+  const addPreset = React.useCallback((preset: Omit<SizePreset, "id">) => {
+    const created = { ...preset, id: createPresetId() }
+    setState((current) => ({ ...current, presets: [...current.presets, created] }))
+    return created
+  }, [])
+
+  const updatePreset = React.useCallback((id: string, changes: Partial<Omit<SizePreset, "id">>) => {
+    setState((current) => ({
+      ...current,
+      presets: current.presets.map((preset) =>
+        preset.id === id ? { ...preset, ...changes } : preset
+      ),
+    }))
+  }, [])
+
+  const removePreset = React.useCallback((id: string) => {
+    setState((current) => {
+      // Always keep at least one preset around
+      if (current.presets.length <= 1) return current
+
+      const presets = current.presets.filter((preset) => preset.id !== id)
+      const activeId = current.activeId === id ? presets[0].id : current.activeId
+      return { presets, activeId }
+    })
+  }, [])
+
+  const importPresets = React.useCallback((presets: SizePreset[]) => {
+    setState((current) => ({ ...current, presets: [...current.presets, ...presets] }))
+  }, [])
+
+  return {
+    presets: state.presets,
+    activePreset,
+    selectPreset,
+    addPreset,
+    updatePreset,
+    removePreset,
+    importPresets,
+  }
+}
@@ -0,0 +1,147 @@
+import * as React from "react"
+import { toast } from "sonner"
+import {
+  clearStoredSession,
+  getStorageUsage,
+  isQuotaExceededError,
+  isSameStoredImage,
+  loadSession,
+  requestPersistentStorage,
+  saveSessionImages,
+  saveSessionSettings,
+  type SessionSettings,
+  type StorageUsage,
+  type StoredImage,
+  type StoredSession,
+} from "@/utils/sessionStore"
+
+/**
+ * Keep the queue and settings in IndexedDB. The stored session is handed to
+ * `onRestore` once on mount; nothing is written before that, so an empty
+ * first render can't wipe it, and nothing at all when IndexedDB won't open.
+ */
+export function useStoredSession(
+  images: StoredImage[],
+  settings: SessionSettings,
+  onRestore: (session: StoredSession) => void
+) {
+  const [restored, setRestored] = React.useState(false)
+  const [usage, setUsage] = React.useState<StorageUsage | null>(null)
+  // What the database holds, updated only once a write has committed, so a
+  // failed write is retried with the next change
+  const savedImagesRef = React.useRef(new Map<string, StoredImage>())
+  const settingsSavedRef = React.useRef(false)
+  const imagesRef = React.useRef(images)
+  const settingsRef = React.useRef(settings)
+  const onRestoreRef = React.useRef(onRestore)
+  // Writes run one after the other, in the order the changes happened
+  const writesRef = React.useRef<Promise<void>>(Promise.resolve())
+  // One warning until a write succeeds again
+  const failureWarnedRef = React.useRef(false)
+
+  imagesRef.current = images
+  settingsRef.current = settings
+  onRestoreRef.current = onRestore
+
+  const refreshUsage = React.useCallback(() => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch(() => setUsage(null))
+  }, [])
+
+  const enqueueWrite = React.useCallback((write: () => Promise<void>) => {
+    writesRef.current = writesRef.current
+      .then(write)
+      .then(() => {
+        failureWarnedRef.current = false
+      })
+      .catch((error) => {
+        console.error("Failed to save session:", error)
+        if (failureWarnedRef.current) return
+        failureWarnedRef.current = true
+        toast.error(isQuotaExceededError(error)
+          ? "Sem espaço para salvar a sessão. Baixe os resultados e limpe a sessão salva."
+          : "Não foi possível salvar a sessão. As imagens podem não voltar ao recarregar a página.")
+      })
+      .finally(refreshUsage)
+  }, [refreshUsage])
+
+  /** Write whatever differs between the queue and the database, as it is when the write runs */
+  const syncImages = React.useCallback(() => {
+    enqueueWrite(async () => {
+      const current = imagesRef.current
+      const saved = savedImagesRef.current
+      const changed = current.filter((image) => {
+        const previous = saved.get(image.id)
+        return !previous || !isSameStoredImage(previous, image)
+      })
+      const ids = new Set(current.map((image) => image.id))
+      const removed = [...saved.keys()].filter((id) => !ids.has(id))
+      if (changed.length === 0 && removed.length === 0) return
+
+      // Outputs are only worth restoring together with what they were made with
+      if (!settingsSavedRef.current && current.length > 0) {
+        await saveSessionSettings(settingsRef.current)
+        settingsSavedRef.current = true
+      }
+
+      const newIds = new Set(changed.filter((image) => !saved.has(image.id)).map((image) => image.id))
+      await saveSessionImages(current, changed, removed, newIds)
+      savedImagesRef.current = new Map(current.map((image) => [image.id, image]))
+    })
+  }, [enqueueWrite])
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    loadSession()
+      .then((session) => {
+        if (cancelled) return
+        savedImagesRef.current = new Map(session.images.map((image) => [image.id, image]))
+        settingsSavedRef.current = session.settings !== null
+        // Same batch as the restored state, so the first sync already sees it
+        onRestoreRef.current(session)
+        setRestored(true)
+      })
+      .catch((error) => {
+        // Without a working database the session simply isn't kept
+        console.warn("Could not restore the stored session:", error)
+      })
+      .finally(refreshUsage)
+
+    requestPersistentStorage().catch(() => false)
+
+    return () => {
+      cancelled = true
+    }
+  }, [refreshUsage])
+
+  React.useEffect(() => {
+    if (!restored) return
+    enqueueWrite(async () => {
+      await saveSessionSettings(settings)
+      settingsSavedRef.current = true
+    })
+  }, [settings, restored, enqueueWrite])
+
+  React.useEffect(() => {
+    if (!restored) return
+    syncImages()
+  }, [images, restored, syncImages])
+
+  /** Delete the stored session; the page keeps whatever it still shows */
+  const clearSession = React.useCallback(() => {
+    // Unlike the background writes, the caller hears about a failure
+    const cleared = writesRef.current
+      .then(clearStoredSession)
+      .then(() => {
+        savedImagesRef.current = new Map()
+        settingsSavedRef.current = false
+        failureWarnedRef.current = false
+      })
+    writesRef.current = cleared.catch(() => undefined).finally(refreshUsage)
+    return cleared
+  }, [refreshUsage])
+
+  return { restored, usage, clearSession }
+}
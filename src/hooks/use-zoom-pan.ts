@@ -0,0 +1,159 @@
+import * as React from "react"
+
+/** Zoom step of the zoom buttons and of each wheel notch */
+const ZOOM_STEP = 1.25
+/** How far past 100% the view can be magnified */
+const MAX_PIXEL_ZOOM = 16
+/** Pointer travel, in CSS pixels, after which a press becomes a pan */
+const PAN_THRESHOLD = 4
+
+/** Zoom 1 fits the content in the viewport; pan is its top-left corner */
+export interface ZoomPanView {
+  zoom: number
+  panX: number
+  panY: number
+}
+
+interface PanState {
+  pointerId: number
+  startX: number
+  startY: number
+  startView: ZoomPanView
+  /** Whether the press moved far enough to be a pan rather than a click */
+  active: boolean
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Wheel zoom and drag pan of content laid out at `contentWidth` ×
+ * `contentHeight` in a resizable viewport. The content is fitted whenever the
+ * viewport or its size changes; `pixelWidth` is its real width in pixels,
+ * which sets the 100% zoom.
+ */
+export function useZoomPan(contentWidth: number | null, contentHeight: number | null, pixelWidth?: number) {
+  const [viewport, setViewport] = React.useState<{ width: number; height: number } | null>(null)
+  const [view, setView] = React.useState<ZoomPanView>({ zoom: 1, panX: 0, panY: 0 })
+  const observerRef = React.useRef<ResizeObserver | null>(null)
+  const panRef = React.useRef<PanState | null>(null)
+
+  // Dialogs mount their content lazily, so the viewport is observed through
+  // a callback ref
+  const viewportRef = React.useCallback((element: HTMLDivElement | null) => {
+    observerRef.current?.disconnect()
+    observerRef.current = null
+    if (!element) return
+
+    observerRef.current = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observerRef.current.observe(element)
+  }, [])
+
+  // Size of the content on screen at zoom 1
+  const base = React.useMemo(() => {
+    if (!contentWidth || !contentHeight || !viewport) return null
+    const aspect = contentWidth / contentHeight
+    const width = Math.min(viewport.width, viewport.height * aspect)
+    return { width, height: width / aspect }
+  }, [contentWidth, contentHeight, viewport])
+
+  // Zoom at which one content pixel takes one device pixel
+  const actualSizeZoom = base ? (pixelWidth ?? contentWidth ?? 1) / window.devicePixelRatio / base.width : 1
+  const minZoom = Math.min(1, actualSizeZoom)
+  const maxZoom = Math.max(actualSizeZoom * MAX_PIXEL_ZOOM, 4)
+
+  const fitView = React.useCallback(() => {
+    if (!base || !viewport) return
+    setView({
+      zoom: 1,
+      panX: (viewport.width - base.width) / 2,
+      panY: (viewport.height - base.height) / 2,
+    })
+  }, [base, viewport])
+
+  React.useEffect(fitView, [fitView])
+
+  /** Zoom keeping the point (x, y) of the viewport in place */
+  const zoomAt = React.useCallback((zoom: number, x: number, y: number) => {
+    setView((current) => {
+      const next = clamp(zoom, minZoom, maxZoom)
+      const ratio = next / current.zoom
+      return {
+        zoom: next,
+        panX: x - (x - current.panX) * ratio,
+        panY: y - (y - current.panY) * ratio,
+      }
+    })
+  }, [minZoom, maxZoom])
+
+  const zoomAtCenter = React.useCallback((zoom: number) => {
+    if (!viewport) return
+    zoomAt(zoom, viewport.width / 2, viewport.height / 2)
+  }, [viewport, zoomAt])
+
+  const onWheel = (e: React.WheelEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP
+    zoomAt(view.zoom * factor, e.clientX - rect.left, e.clientY - rect.top)
+  }
+
+  // The pointer is only captured once the press turns into a pan, so a plain
+  // click still reaches whatever is under it
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    panRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, startView: view, active: false }
+  }
+
+  const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const pan = panRef.current
+    if (!pan || pan.pointerId !== e.pointerId) return
+
+    const dx = e.clientX - pan.startX
+    const dy = e.clientY - pan.startY
+    if (!pan.active) {
+      if (Math.hypot(dx, dy) < PAN_THRESHOLD) return
+      pan.active = true
+      e.currentTarget.setPointerCapture(e.pointerId)
+    }
+    setView({ ...pan.startView, panX: pan.startView.panX + dx, panY: pan.startView.panY + dy })
+  }
+
+  const onPointerEnd = (e: React.PointerEvent<HTMLElement>) => {
+    if (panRef.current?.pointerId === e.pointerId) {
+      panRef.current = null
+    }
+  }
+
+  return {
+    viewportRef,
+    /** Size of the content at zoom 1, once the viewport is measured */
+    base,
+    view,
+    actualSizeZoom,
+    /** Zoom relative to the real size of the content */
+    zoomPercent: Math.round((view.zoom / actualSizeZoom) * 100),
+    canZoomIn: !!base && view.zoom < maxZoom,
+    canZoomOut: !!base && view.zoom > minZoom,
+    fitView,
+    zoomIn: () => zoomAtCenter(view.zoom * ZOOM_STEP),
+    zoomOut: () => zoomAtCenter(view.zoom / ZOOM_STEP),
+    showActualSize: () => zoomAtCenter(actualSizeZoom),
+    /** Transform for every layer of the content, so they stay in sync */
+    contentStyle: base
+      ? {
+          width: base.width,
+          height: base.height,
+          transform: `translate(${view.panX}px, ${view.panY}px) scale(${view.zoom})`,
+        }
+      : undefined,
+    // Beyond 100% pixels are shown as crisp squares instead of being smoothed
+    imageRendering: view.zoom > actualSizeZoom ? "pixelated" as const : "auto" as const,
+    viewportHandlers: {
+      onWheel,
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: onPointerEnd,
+      onPointerCancel: onPointerEnd,
+    },
+  }
+}
@@ -0,0 +1,297 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, Download, History as HistoryIcon, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from '@/components/ui/pagination';
+import {
+  deleteHistoryBatch,
+  getBatchSettingsLabel,
+  getHistoryNaming,
+  getHistoryOutputs,
+  listHistoryBatches,
+  loadHistoryBatch,
+  type HistoryBatch,
+  type RerunRequest,
+} from '@/utils/history';
+import { downloadAllAsZip, formatFileSize, getBatchFilename } from '@/utils/imageProcessor';
+import { isAbortError } from '@/utils/abort';
+import { openArchiveSink, type ArchiveProgress } from '@/utils/archive';
+
+const PAGE_SIZE = 10;
+
+const dateFormat = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Page numbers to show: the first, the last and the ones around the current
+ * page, with null where an ellipsis goes
+ */
+const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= pageCount; i++) {
+    if (i === 1 || i === pageCount || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const History = () => {
+  const navigate = useNavigate();
+  const [batches, setBatches] = useState<HistoryBatch[] | null>(null);
+  const [page, setPage] = useState(1);
+  // Batch whose zip is being written, with how far it got
+  const [download, setDownload] = useState<{ id: string; progress: ArchiveProgress } | null>(null);
+
+  const refresh = useCallback(() => {
+    listHistoryBatches()
+      .then(setBatches)
+      .catch((error) => {
+        console.error('Failed to load history:', error);
+        toast.error('Não foi possível carregar o histórico');
+        setBatches([]);
+      });
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const pageCount = Math.max(1, Math.ceil((batches?.length ?? 0) / PAGE_SIZE));
+
+  // Deleting the last batch of the last page moves back a page
+  useEffect(() => {
+    if (page > pageCount) setPage(pageCount);
+  }, [page, pageCount]);
+
+  const handleDownload = useCallback((batch: HistoryBatch) => {
+    const naming = getHistoryNaming(batch);
+    const filename = getBatchFilename(naming, batch.target.width, batch.target.height, 'zip');
+    setDownload({ id: batch.id, progress: { entries: 0, totalEntries: 0, percent: 0, currentFile: '' } });
+
+    // The save dialog needs the click's user activation, so the file is
+    // picked before the outputs are loaded
+    openArchiveSink(filename)
+      .then(async (sink) => {
+        try {
+          const loaded = await loadHistoryBatch(batch.id);
+          if (!loaded) throw new Error('Lote não encontrado');
+          await downloadAllAsZip(
+            getHistoryOutputs(loaded.batch, loaded.items),
+            filename,
+            loaded.batch.settings.mosaicConfig.grid,
+            naming,
+            (progress) => setDownload({ id: batch.id, progress }),
+            sink
+          );
+        } catch (error) {
+          // Don't leave an empty file behind; a failed write already aborted it
+          await sink.abort().catch(() => undefined);
+          throw error;
+        }
+      })
+      .then(() => {
+        toast.success(`${filename} baixado`);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error('Failed to download batch:', error);
+        toast.error('Erro ao baixar o lote');
+      })
+      .finally(() => {
+        setDownload(null);
+      });
+  }, []);
+
+  const handleRerun = useCallback((batch: HistoryBatch, edit: boolean) => {
+    const rerun: RerunRequest = { batchId: batch.id, edit };
+    navigate('/', { state: { rerun } });
+  }, [navigate]);
+
+  const handleDelete = useCallback((batch: HistoryBatch) => {
+    deleteHistoryBatch(batch.id)
+      .then(() => {
+        toast.success('Lote excluído do histórico');
+        refresh();
+      })
+      .catch((error) => {
+        console.error('Failed to delete batch:', error);
+        toast.error('Erro ao excluir o lote');
+      });
+  }, [refresh]);
+
+  const visibleBatches = (batches ?? []).slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-b from-background to-secondary/20">
+      <div className="container max-w-6xl mx-auto px-4 py-8 md:py-16">
+        <header className="mb-8 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight mb-2 flex items-center">
+              <HistoryIcon className="w-7 h-7 mr-3 text-primary" />
+              Histórico
+            </h1>
+            <p className="text-muted-foreground">
+              Lotes processados neste navegador. Baixe os resultados de novo ou refaça um lote com as mesmas configurações. Os lotes mais antigos saem do histórico quando ele enche.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Voltar
+            </Link>
+          </Button>
+        </header>
+
+        <div className="glass-panel rounded-xl overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Configurações</TableHead>
+                <TableHead className="text-right">Imagens</TableHead>
+                <TableHead className="text-right">Tamanho</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches === null ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    Carregando...
+                  </TableCell>
+                </TableRow>
+              ) : batches.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    Nenhum lote processado ainda.
+                  </TableCell>
+                </TableRow>
+              ) : visibleBatches.map(batch => (
+                <TableRow key={batch.id}>
+                  <TableCell className="whitespace-nowrap">{dateFormat.format(batch.createdAt)}</TableCell>
+                  <TableCell className="text-muted-foreground">{getBatchSettingsLabel(batch)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {batch.completedCount} de {batch.imageIds.length}
+                    {batch.failedCount > 0 && (
+                      <span className="block text-xs text-destructive">
+                        {batch.failedCount} {batch.failedCount === 1 ? 'não concluída' : 'não concluídas'}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">{formatFileSize(batch.totalOutputSize)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDownload(batch)}
+                        disabled={download !== null || batch.completedCount === 0}
+                        title="Baixar resultados"
+                      >
+                        {download?.id === batch.id ? (
+                          <>
+                            <RefreshCw className="w-4 h-4 mr-1 animate-spin" />
+                            {download.progress.percent}%
+                          </>
+                        ) : (
+                          <Download className="w-4 h-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRerun(batch, false)}
+                        title="Refazer com as mesmas configurações"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRerun(batch, true)}
+                        title="Editar configurações e refazer"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(batch)}
+                        disabled={download?.id === batch.id}
+                        className="group"
+                        title="Excluir do histórico"
+                      >
+                        <Trash2 className="w-4 h-4 group-hover:text-destructive" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {pageCount > 1 && (
+          <Pagination className="mt-4">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationLink
+                  size="default"
+                  className="gap-1 pl-2.5 cursor-pointer"
+                  aria-disabled={page === 1}
+                  onClick={() => setPage(Math.max(1, page - 1))}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  <span>Anterior</span>
+                </PaginationLink>
+              </PaginationItem>
+              {getPageNumbers(page, pageCount).map((number, i) => (
+                <PaginationItem key={number ?? `ellipsis-${i}`}>
+                  {number === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      className="cursor-pointer"
+                      isActive={number === page}
+                      onClick={() => setPage(number)}
+                    >
+                      {number}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationLink
+                  size="default"
+                  className="gap-1 pr-2.5 cursor-pointer"
+                  aria-disabled={page === pageCount}
+                  onClick={() => setPage(Math.min(pageCount, page + 1))}
+                >
+                  <span>Próxima</span>
+                  <ChevronRight className="h-4 w-4" />
+                </PaginationLink>
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,35 +1,292 @@
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import ImageDropzone from '@/components/ImageDropzone';
 import ImagePreview from '@/components/ImagePreview';
 import ConversionCard from '@/components/ConversionCard';
+import PresetManager from '@/components/PresetManager';
+import PrintSizeSettings from '@/components/PrintSizeSettings';
+import MosaicSettings from '@/components/MosaicSettings';
+import ConversionSettings from '@/components/ConversionSettings';
+import CropEditorDialog from '@/components/CropEditorDialog';
+import CompareDialog from '@/components/CompareDialog';
+import MosaicPreviewDialog from '@/components/MosaicPreviewDialog';
+import BackgroundSettings from '@/components/BackgroundSettings';
+import OutputSettings from '@/components/OutputSettings';
+import ProcessingSettings from '@/components/ProcessingSettings';
+import ResampleSettings from '@/components/ResampleSettings';
+import MetadataSettings from '@/components/MetadataSettings';
+import FilenameSettings from '@/components/FilenameSettings';
+import StoredSessionSettings from '@/components/StoredSessionSettings';
+import RerunBanner from '@/components/RerunBanner';
+import { useSizePresets } from '@/hooks/use-size-presets';
+import { useStoredSession } from '@/hooks/use-stored-session';
+import { useBatchHistory } from '@/hooks/use-batch-history';
+import { formatPresetSize } from '@/utils/sizePresets';
 import { 
   convertImage, 
   downloadBlob, 
   createThumbnailUrl, 
   createMosaicPieces,
-  downloadBlobsAsZip
+  createMosaicPoster,
+  downloadBlobsAsZip,
+  downloadAllAsZip,
+  getBatchFilename,
+  getConvertedFilename,
+  getMosaicFilename,
+  getMosaicPieceFilenames,
+  estimateProcessingMemory,
+  type DownloadableOutput,
+  type MosaicOptions,
+  type OutputNaming
 } from '@/utils/imageProcessor';
-import { ChevronLeft, Image } from 'lucide-react';
+import { ChevronLeft, History, Image } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import {
+  computeMosaicLayout,
+  DEFAULT_MOSAIC_CONFIG,
+  formatGrid,
+  getMarkMargin,
+  getMaxOverlap,
+  getPieceCount,
+  hasPrintMarks,
+  type MosaicConfig,
+} from '@/utils/mosaicLayout';
+import { DEFAULT_PRINT_DPI, formatPrintSize, lengthToPixels } from '@/utils/units';
+import { DEFAULT_PRINT_SETTINGS, getPrintPaper, getPrintPreset, type PrintSettings } from '@/utils/printSize';
+import { getPaperSize } from '@/utils/paper';
+import { DEFAULT_FIT_MODE, getFitModeLabel, type FitMode } from '@/utils/fitMode';
+import type { SourceCrop } from '@/utils/crop';
+import { summarizeEncoding, type EncodingSummary } from '@/utils/encoder';
+import { createTaskScheduler, getDefaultConcurrency } from '@/utils/scheduler';
+import { isAbortError } from '@/utils/abort';
+import type { ArchiveProgress } from '@/utils/archive';
+import type { SessionSettings, StoredSession } from '@/utils/sessionStore';
+import {
+  loadHistoryBatch,
+  type BatchTarget,
+  type HistoryBatch,
+  type HistoryItem,
+  type RerunRequest,
+} from '@/utils/history';
+import { DEFAULT_RESAMPLE, getResampleLabel, type ResampleOptions } from '@/utils/resample';
+import { DEFAULT_METADATA, getMetadataLabel, type MetadataSettings as MetadataSettingsValue } from '@/utils/metadata';
+import { DEFAULT_FILENAME_TEMPLATES, type FilenameTemplates } from '@/utils/filenameTemplate';
+import { DEFAULT_BACKGROUND, getBackgroundLabel, type BackgroundFill } from '@/utils/background';
+import {
+  DEFAULT_OUTPUT_SETTINGS,
+  getOutputLabel,
+  resolveOutputType,
+  type OutputSettings as OutputSettingsValue,
+} from '@/utils/outputFormat';
+import {
+  downloadMosaicsAsPdf,
+  DEFAULT_PDF_SETTINGS,
+  getPdfFitError,
+  type PdfExportOptions,
+  type PdfSettings,
+} from '@/utils/pdfExport';
 
-type ImageStatus = 'idle' | 'processing' | 'completed' | 'error';
+type ImageStatus = 'idle' | 'queued' | 'processing' | 'completed' | 'error' | 'cancelled';
 
 interface ImageItem {
+  /** Stable key, so results land on the right item while others are added or removed */
+  id: string;
   file: File;
   status: ImageStatus;
   convertedBlob?: Blob;
   convertedUrl?: string | null;
   mosaicPieces?: Blob[];
+  assemblyGuide?: Blob;
+  crop?: SourceCrop;
+  encoding?: EncodingSummary;
 }
 
+/** A batch from the history waiting to be run again */
+interface PendingRerun {
+  batch: HistoryBatch;
+  items: HistoryItem[];
+  /** Settings are loaded for editing instead of starting right away */
+  edit: boolean;
+  /** The batch's settings have replaced the current ones */
+  applied: boolean;
+}
+
+let nextImageId = 0;
+// Restored items keep their ids, so new ones must not start over at 0
+const imageIdPrefix = Date.now().toString(36);
+const createImageId = () => `image-${imageIdPrefix}-${nextImageId++}`;
+
+/** Longer side, in pixels, of the poster shown in the mosaic preview */
+const POSTER_PREVIEW_SIZE = 2400;
+
+const getBaseFilename = (file: File) => file.name.replace(/\.[^/.]+$/, '');
+
+const buildMosaicOptions = (
+  config: MosaicConfig,
+  pieceWidth: number,
+  pieceHeight: number,
+  posterName: string,
+  dpi: number
+): MosaicOptions => {
+  const margin = hasPrintMarks(config) ? getMarkMargin(pieceWidth, pieceHeight) : 0;
+  
+  return {
+    grid: config.grid,
+    overlap: Math.min(
+      lengthToPixels(config.overlap, config.overlapUnit, dpi),
+      getMaxOverlap(pieceWidth, pieceHeight, margin)
+    ),
+    glueTabs: config.glueTabs,
+    margin,
+    marks: {
+      cropMarks: config.cropMarks,
+      registrationMarks: config.registrationMarks,
+      label: config.pieceLabels ? posterName : undefined,
+    },
+  };
+};
+
 const Index = () => {
   const [images, setImages] = useState<ImageItem[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
   const [viewportHeight, setViewportHeight] = useState(window.innerHeight);
   const [mosaicMode, setMosaicMode] = useState(false);
+  const [mosaicConfig, setMosaicConfig] = useState<MosaicConfig>(DEFAULT_MOSAIC_CONFIG);
+  const mosaicGrid = mosaicConfig.grid;
+  const [fitMode, setFitMode] = useState<FitMode>(DEFAULT_FIT_MODE);
+  const [background, setBackground] = useState<BackgroundFill>(DEFAULT_BACKGROUND);
+  const [outputSettings, setOutputSettings] = useState<OutputSettingsValue>(DEFAULT_OUTPUT_SETTINGS);
+  const [resample, setResample] = useState<ResampleOptions>(DEFAULT_RESAMPLE);
+  const [metadata, setMetadata] = useState<MetadataSettingsValue>(DEFAULT_METADATA);
+  const [printMode, setPrintMode] = useState(false);
+  const [printSettings, setPrintSettings] = useState<PrintSettings>(DEFAULT_PRINT_SETTINGS);
+  const [filenameTemplates, setFilenameTemplates] = useState<FilenameTemplates>(DEFAULT_FILENAME_TEMPLATES);
+  const [pdfSettings, setPdfSettings] = useState<PdfSettings>(DEFAULT_PDF_SETTINGS);
+  const [cropEditorIndex, setCropEditorIndex] = useState<number | null>(null);
+  const [compareIndex, setCompareIndex] = useState<number | null>(null);
+  const [mosaicPreviewIndex, setMosaicPreviewIndex] = useState<number | null>(null);
+  const {
+    presets,
+    activePreset,
+    selectPreset,
+    addPreset,
+    updatePreset,
+    removePreset,
+    importPresets,
+  } = useSizePresets();
+  // Size of every output (or mosaic piece), from the paper in print mode
+  const targetSize = useMemo(
+    () => printMode ? getPrintPreset(printSettings) : activePreset,
+    [printMode, printSettings, activePreset]
+  );
+  // Resolution the outputs are meant to be printed at, if any
+  const outputDpi = printMode ? printSettings.dpi : metadata.dpi;
+  const overlapDpi = outputDpi ?? DEFAULT_PRINT_DPI;
+  // The PDF prints on its own paper, at the resolution the overlap and marks
+  // were measured with
+  const pdfOptions = useMemo((): PdfExportOptions => ({
+    paper: getPaperSize(pdfSettings.paperId),
+    marginMm: pdfSettings.marginMm,
+    dpi: overlapDpi,
+    unit: printSettings.unit,
+  }), [pdfSettings, overlapDpi, printSettings.unit]);
+  // Sheets the pieces are printed on: the print paper, or else the PDF's
+  const sheetPaperName = printMode ? getPrintPaper(printSettings).name : pdfOptions.paper.name;
+  // Names mostly matter when downloading, so templates can change at any
+  // time; only the piece names are locked, as assembly guides print them
+  const getNaming = useCallback((): OutputNaming => ({
+    templates: filenameTemplates,
+    preset: targetSize.name,
+    date: new Date(),
+  }), [filenameTemplates, targetSize.name]);
+  const [concurrency, setConcurrency] = useState(getDefaultConcurrency);
+  const scheduler = useMemo(() => createTaskScheduler(), []);
+  const [isPaused, setIsPaused] = useState(false);
+  // How far the "download all" zip has been written, null when idle
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveProgress | null>(null);
+  // One controller per queued or running item, keyed by item id
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Items added together with new settings (a restored session or a re-run),
+  // waiting for those settings to be in place
+  const [resumePending, setResumePending] = useState(false);
+  const [pendingRerun, setPendingRerun] = useState<PendingRerun | null>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  
+  const sessionSettings = useMemo((): SessionSettings => ({
+    mosaicMode,
+    mosaicConfig,
+    fitMode,
+    background,
+    outputSettings,
+    resample,
+    metadata,
+    printMode,
+    printSettings,
+    filenameTemplates,
+    pdfSettings,
+    concurrency,
+  }), [mosaicMode, mosaicConfig, fitMode, background, outputSettings, resample, metadata, printMode, printSettings, filenameTemplates, pdfSettings, concurrency]);
+  
+  const applySettings = useCallback((settings: Partial<SessionSettings>) => {
+    setMosaicMode(settings.mosaicMode ?? false);
+    setMosaicConfig({ ...DEFAULT_MOSAIC_CONFIG, ...settings.mosaicConfig });
+    setFitMode(settings.fitMode ?? DEFAULT_FIT_MODE);
+    setBackground(settings.background ?? DEFAULT_BACKGROUND);
+    setOutputSettings({ ...DEFAULT_OUTPUT_SETTINGS, ...settings.outputSettings });
+    setResample({ ...DEFAULT_RESAMPLE, ...settings.resample });
+    setMetadata({ ...DEFAULT_METADATA, ...settings.metadata });
+    setPrintMode(settings.printMode ?? false);
+    setPrintSettings({ ...DEFAULT_PRINT_SETTINGS, ...settings.printSettings });
+    setFilenameTemplates({ ...DEFAULT_FILENAME_TEMPLATES, ...settings.filenameTemplates });
+    setPdfSettings({ ...DEFAULT_PDF_SETTINGS, ...settings.pdfSettings });
+    if (settings.concurrency) setConcurrency(settings.concurrency);
+  }, []);
+  
+  const handleSessionRestore = useCallback(({ settings, images: storedImages }: StoredSession) => {
+    if (settings) {
+      applySettings(settings);
+    }
+    
+    if (storedImages.length === 0) return;
+    
+    const restoredImages = storedImages.map((image): ImageItem => {
+      if (image.status === 'completed') {
+        const preview = image.convertedBlob ?? image.mosaicPieces?.[0];
+        return { ...image, convertedUrl: preview ? URL.createObjectURL(preview) : null };
+      }
+      // Jobs interrupted by the reload start over
+      if (image.status === 'queued' || image.status === 'processing') {
+        return { id: image.id, file: image.file, status: 'idle', crop: image.crop };
+      }
+      return image;
+    });
+    
+    setImages(current => [...restoredImages, ...current]);
+    setResumePending(restoredImages.some(image => image.status === 'idle'));
+    toast.info(`${restoredImages.length} ${
+      restoredImages.length === 1 ? 'imagem restaurada' : 'imagens restauradas'
+    } da sessão anterior`);
+  }, [applySettings]);
+  
+  const {
+    restored: sessionRestored,
+    usage: storageUsage,
+    clearSession,
+  } = useStoredSession(images, sessionSettings, handleSessionRestore);
+  useBatchHistory(images, sessionSettings, targetSize, sessionRestored);
+  
+  // Leaving the page stops the work; the stored session resumes it on return
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+  
+  useEffect(() => {
+    scheduler.setConcurrency(concurrency);
+  }, [scheduler, concurrency]);
   
   useEffect(() => {
     const handleResize = () => {
@@ -40,85 +297,328 @@ const Index = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  const isProcessing = useMemo(
+    () => images.some(img => img.status === 'queued' || img.status === 'processing'),
+    [images]
+  );
+  
+  // Nothing left to pause once the batch is over
+  useEffect(() => {
+    if (!isProcessing && isPaused) {
+      scheduler.resume();
+      setIsPaused(false);
+    }
+  }, [isProcessing, isPaused, scheduler]);
+  
+  // Settings only change between batches so every output matches the labels
+  const settingsLocked = isProcessing || images.length > 0;
+
   const stats = useMemo(() => {
     const completed = images.filter(img => img.status === 'completed').length;
     const total = images.length;
     return { completed, total };
   }, [images]);
 
+  const getEncoderOptions = useCallback((file: File) => ({
+    outputType: resolveOutputType(outputSettings.format, file.type),
+    quality: outputSettings.quality,
+    maxBytes: outputSettings.maxBytes ?? undefined,
+    metadata: { ...metadata, dpi: outputDpi },
+  }), [outputSettings, metadata, outputDpi]);
+
+  // Everything an item's mosaic is cut with; the preview composes its poster
+  // from the same options
+  const getMosaicOptions = useCallback((item: ImageItem): MosaicOptions => {
+    const encoderOptions = getEncoderOptions(item.file);
+    const posterName = getBaseFilename(item.file);
+    const pieceNames = getMosaicPieceFilenames(
+      { sourceName: item.file.name, width: targetSize.width, height: targetSize.height },
+      encoderOptions.outputType,
+      mosaicConfig.grid,
+      getNaming()
+    );
+    return {
+      ...buildMosaicOptions(mosaicConfig, targetSize.width, targetSize.height, posterName, overlapDpi),
+      crop: item.crop,
+      background,
+      resample,
+      ...encoderOptions,
+      assemblyGuide: { posterName, printSize: { dpi: overlapDpi, unit: printSettings.unit }, pieceNames },
+    };
+  }, [getEncoderOptions, targetSize, mosaicConfig, getNaming, overlapDpi, background, resample, printSettings.unit]);
+
+  const processImages = useCallback((imagesToProcess: ImageItem[]) => {
+    const pendingImages = imagesToProcess.filter(img => img.status === 'idle');
+    if (pendingImages.length === 0) return;
+    
+    const updateImage = (id: string, update: Partial<ImageItem>) => {
+      setImages(current => 
+        current.map(img => img.id === id ? { ...img, ...update } : img)
+      );
+    };
+    
+    const pendingIds = new Set(pendingImages.map(img => img.id));
+    setImages(current => 
+      current.map(img => pendingIds.has(img.id) ? { ...img, status: 'queued' } : img)
+    );
+    
+    pendingImages.forEach(item => {
+      const encoderOptions = getEncoderOptions(item.file);
+      const mosaicOptions = mosaicMode ? getMosaicOptions(item) : undefined;
+      const memoryCost = estimateProcessingMemory(
+        item.file,
+        targetSize.width,
+        targetSize.height,
+        mosaicOptions
+      );
+      const controller = new AbortController();
+      const { signal } = controller;
+      controllersRef.current.set(item.id, controller);
+      
+      const run = async (): Promise<Partial<ImageItem>> => {
+        updateImage(item.id, { status: 'processing' });
+        
+        if (mosaicOptions) {
+          const { pieces: encodedPieces, assemblyGuide } = await createMosaicPieces(
+            item.file,
+            targetSize.width,
+            targetSize.height,
+            mosaicOptions,
+            signal
+          );
+          
+          const mosaicPieces = encodedPieces.map(piece => piece.blob);
+          return {
+            status: 'completed',
+            mosaicPieces,
+            assemblyGuide,
+            encoding: summarizeEncoding(encodedPieces),
+            convertedUrl: URL.createObjectURL(mosaicPieces[0]),
+          };
+        }
+        
+        const encoded = await convertImage(
+          item.file,
+          targetSize.width,
+          targetSize.height,
+          { fitMode, crop: item.crop, background, resample, ...encoderOptions },
+          signal
+        );
+        return {
+          status: 'completed',
+          convertedBlob: encoded.blob,
+          encoding: summarizeEncoding([encoded]),
+          convertedUrl: URL.createObjectURL(encoded.blob),
+        };
+      };
+      
+      scheduler.schedule(run, memoryCost, signal)
+        .then(update => updateImage(item.id, update))
+        .catch(error => {
+          if (isAbortError(error)) {
+            updateImage(item.id, { status: 'cancelled' });
+            return;
+          }
+          
+          console.error('Error processing image:', error);
+          updateImage(item.id, { status: 'error' });
+          toast.error(`Erro ao processar ${item.file.name}`);
+        })
+        .finally(() => {
+          if (controllersRef.current.get(item.id) === controller) {
+            controllersRef.current.delete(item.id);
+          }
+        });
+    });
+  }, [scheduler, mosaicMode, targetSize, fitMode, background, resample, getEncoderOptions, getMosaicOptions]);
+
+  // Runs once the restored settings are in place, so processImages uses them
+  useEffect(() => {
+    if (!resumePending) return;
+    
+    setResumePending(false);
+    processImages(images);
+  }, [resumePending, images, processImages]);
+
+  // The size a batch was made at: print sizes follow from the restored print
+  // settings, pixel sizes need a preset, which is added when none matches
+  const applyBatchTarget = useCallback((batch: HistoryBatch) => {
+    if (batch.settings.printMode) return;
+    
+    const { name, width, height }: BatchTarget = batch.target;
+    const preset = presets.find(candidate => candidate.width === width && candidate.height === height)
+      ?? addPreset({ name, width, height });
+    selectPreset(preset.id);
+  }, [presets, addPreset, selectPreset]);
+  
+  const startRerun = useCallback((items: HistoryItem[]) => {
+    const newImages = items.map((item): ImageItem => ({
+      id: createImageId(),
+      file: item.file,
+      status: 'idle',
+      crop: item.crop,
+    }));
+    
+    setImages(current => [...current, ...newImages]);
+    setResumePending(true);
+    toast.info(`Refazendo ${newImages.length} ${newImages.length === 1 ? 'imagem' : 'imagens'}`);
+  }, []);
+  
+  // A re-run asked for from the history page
+  useEffect(() => {
+    const rerun = (location.state as { rerun?: RerunRequest } | null)?.rerun;
+    if (!rerun || !sessionRestored) return;
+    
+    // Handled once: going back or reloading must not queue it again
+    navigate(location.pathname, { replace: true, state: null });
+    loadHistoryBatch(rerun.batchId)
+      .then(loaded => {
+        if (!loaded || loaded.items.length === 0) {
+          toast.error('Lote não encontrado no histórico');
+          return;
+        }
+        setPendingRerun({ ...loaded, edit: rerun.edit, applied: false });
+      })
+      .catch(error => {
+        console.error('Failed to load batch:', error);
+        toast.error('Erro ao carregar o lote');
+      });
+  }, [location, sessionRestored, navigate]);
+  
+  // Settings are locked while there are images, so the batch waits for an empty queue
+  useEffect(() => {
+    if (!pendingRerun || pendingRerun.applied || images.length > 0) return;
+    
+    applySettings(pendingRerun.batch.settings);
+    applyBatchTarget(pendingRerun.batch);
+    
+    if (pendingRerun.edit) {
+      setPendingRerun({ ...pendingRerun, applied: true });
+    } else {
+      startRerun(pendingRerun.items);
+      setPendingRerun(null);
+    }
+  }, [pendingRerun, images.length, applySettings, applyBatchTarget, startRerun]);
+  
+  const handleStartRerun = useCallback(() => {
+    if (!pendingRerun) return;
+    
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de refazer o lote');
+      return;
+    }
+    
+    startRerun(pendingRerun.items);
+    setPendingRerun(null);
+  }, [pendingRerun, images.length, startRerun]);
+
   const handleFilesAdded = useCallback((files: File[]) => {
     const newImages = files.map(file => ({
+      id: createImageId(),
       file,
       status: 'idle' as ImageStatus,
     }));
     
     setImages(prev => [...prev, ...newImages]);
-    processImages([...images, ...newImages]);
+    processImages(newImages);
     
     toast.success(`${files.length} ${files.length === 1 ? 'imagem adicionada' : 'imagens adicionadas'}`);
-  }, [images]);
+  }, [processImages]);
 
-  const processImages = useCallback(async (imagesToProcess: ImageItem[]) => {
-    if (isProcessing) return;
+  const mosaicLayout = useMemo(() => {
+    if (!mosaicMode) return null;
     
-    const pendingImages = imagesToProcess.filter(img => img.status === 'idle');
-    if (pendingImages.length === 0) return;
+    const options = buildMosaicOptions(mosaicConfig, targetSize.width, targetSize.height, '', overlapDpi);
+    return computeMosaicLayout(targetSize.width, targetSize.height, options);
+  }, [mosaicMode, mosaicConfig, targetSize, overlapDpi]);
+
+  // Crops are locked to the output aspect: the whole poster in mosaic mode,
+  // the target canvas otherwise
+  const cropAspect = mosaicLayout
+    ? mosaicLayout.totalWidth / mosaicLayout.totalHeight
+    : targetSize.width / targetSize.height;
+
+  const compareImage = compareIndex !== null ? images[compareIndex] : undefined;
+  const mosaicPreviewImage = mosaicPreviewIndex !== null ? images[mosaicPreviewIndex] : undefined;
+
+  // The poster is composed again by the renderer, so the preview shows the
+  // background, crop and resampling the pieces were cut from
+  const renderPreviewPoster = useMemo(() => {
+    if (!mosaicPreviewImage || !mosaicMode) return null;
+    const options = getMosaicOptions(mosaicPreviewImage);
+    return (signal: AbortSignal) => createMosaicPoster(
+      mosaicPreviewImage.file,
+      targetSize.width,
+      targetSize.height,
+      options,
+      POSTER_PREVIEW_SIZE,
+      signal
+    );
+  }, [mosaicPreviewImage, mosaicMode, getMosaicOptions, targetSize]);
+
+  const handleEditCrop = useCallback((index: number) => {
+    const status = images[index]?.status;
+    if (status === 'queued' || status === 'processing') {
+      toast.error('Aguarde o fim do processamento para editar o recorte');
+      return;
+    }
     
-    setIsProcessing(true);
+    setCropEditorIndex(index);
+  }, [images]);
+
+  const handleApplyCrop = useCallback((crop: SourceCrop | undefined) => {
+    if (cropEditorIndex === null || !images[cropEditorIndex]) return;
     
-    for (let i = 0; i < pendingImages.length; i++) {
-      const index = imagesToProcess.findIndex(img => img === pendingImages[i]);
-      
-      if (index === -1) continue;
-      
-      setImages(current => 
-        current.map((img, idx) => 
-          idx === index ? { ...img, status: 'processing' } : img
-        )
-      );
+    const updatedImages = images.map((img, idx) => {
+      if (idx !== cropEditorIndex) return img;
       
-      try {
-        if (mosaicMode) {
-          const mosaicPieces = await createMosaicPieces(pendingImages[i].file, 2050, 2994);
-          
-          const firstPieceUrl = URL.createObjectURL(mosaicPieces[0]);
-          
-          setImages(current => 
-            current.map((img, idx) => 
-              idx === index 
-                ? { ...img, status: 'completed', mosaicPieces, convertedUrl: firstPieceUrl } 
-                : img
-            )
-          );
-        } else {
-          const convertedBlob = await convertImage(pendingImages[i].file, 2050, 2994);
-          const convertedUrl = URL.createObjectURL(convertedBlob);
-          
-          setImages(current => 
-            current.map((img, idx) => 
-              idx === index 
-                ? { ...img, status: 'completed', convertedBlob, convertedUrl } 
-                : img
-            )
-          );
-        }
-      } catch (error) {
-        console.error('Error processing image:', error);
-        
-        setImages(current => 
-          current.map((img, idx) => 
-            idx === index ? { ...img, status: 'error' } : img
-          )
-        );
-        
-        toast.error(`Erro ao processar ${pendingImages[i].file.name}`);
+      if (img.convertedUrl) {
+        URL.revokeObjectURL(img.convertedUrl);
       }
+      
+      return { id: img.id, file: img.file, status: 'idle' as ImageStatus, crop };
+    });
+    
+    setImages(updatedImages);
+    processImages(updatedImages);
+  }, [cropEditorIndex, images, processImages]);
+
+  const handleCancelImage = useCallback((index: number) => {
+    const image = images[index];
+    if (image) {
+      controllersRef.current.get(image.id)?.abort();
     }
+  }, [images]);
+
+  const handleCancelAll = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    toast.info('Processamento cancelado');
+  }, []);
+
+  const handlePauseChange = useCallback((paused: boolean) => {
+    if (paused) {
+      scheduler.pause();
+    } else {
+      scheduler.resume();
+    }
+    setIsPaused(paused);
+  }, [scheduler]);
+
+  const handleRetryImage = useCallback((index: number) => {
+    const image = images[index];
+    if (!image) return;
     
-    setIsProcessing(false);
-  }, [isProcessing, mosaicMode]);
+    const retried: ImageItem = { id: image.id, file: image.file, status: 'idle', crop: image.crop };
+    setImages(current => current.map(img => img.id === image.id ? retried : img));
+    processImages([retried]);
+  }, [images, processImages]);
 
   const handleRemoveImage = useCallback((index: number) => {
+    const image = images[index];
+    if (image) {
+      controllersRef.current.get(image.id)?.abort();
+    }
+    
     setImages(images => {
       const newImages = [...images];
       
@@ -129,7 +629,17 @@ const Index = () => {
       newImages.splice(index, 1);
       return newImages;
     });
-  }, []);
+  }, [images]);
+
+  const toDownloadableOutput = useCallback((image: ImageItem, index: number): DownloadableOutput => ({
+    sourceName: image.file.name,
+    index: index + 1,
+    width: image.encoding?.width ?? targetSize.width,
+    height: image.encoding?.height ?? targetSize.height,
+    convertedBlob: image.convertedBlob,
+    mosaicPieces: image.mosaicPieces,
+    assemblyGuide: image.assemblyGuide,
+  }), [targetSize]);
 
   const handleDownloadImage = useCallback((index: number) => {
     const image = images[index];
@@ -141,12 +651,13 @@ const Index = () => {
     
     try {
       console.log('Downloading image:', image.file.name, 'Mosaic mode:', mosaicMode);
+      const output = toDownloadableOutput(image, index);
+      const naming = getNaming();
       
       if (mosaicMode && image.mosaicPieces && image.mosaicPieces.length > 0) {
-        const baseFilename = image.file.name.replace(/\.[^/.]+$/, '');
         console.log('Downloading mosaic with pieces:', image.mosaicPieces.length);
         
-        downloadBlobsAsZip(image.mosaicPieces, baseFilename)
+        downloadBlobsAsZip(output, mosaicGrid, naming)
           .then(() => {
             toast.success(`Mosaico de ${image.file.name} baixado com sucesso`);
           })
@@ -155,10 +666,7 @@ const Index = () => {
             toast.error(`Falha ao baixar o mosaico: ${error.message}`);
           });
       } else if (!mosaicMode && image.convertedBlob) {
-        const filename = image.file.name.replace(
-          /\.[^/.]+$/, 
-          `_resized.${image.file.name.split('.').pop()}`
-        );
+        const filename = getConvertedFilename(output, image.convertedBlob, naming);
         
         downloadBlob(image.convertedBlob, filename);
         toast.success(`${filename} baixada com sucesso`);
@@ -170,10 +678,7 @@ const Index = () => {
         });
         
         if (mosaicMode && image.convertedBlob) {
-          const filename = image.file.name.replace(
-            /\.[^/.]+$/, 
-            `_resized.${image.file.name.split('.').pop()}`
-          );
+          const filename = getConvertedFilename(output, image.convertedBlob, naming);
           downloadBlob(image.convertedBlob, filename);
           toast.success(`${filename} baixada com sucesso`);
         } else {
@@ -184,7 +689,7 @@ const Index = () => {
       console.error('Download error:', error);
       toast.error('Erro ao baixar a imagem');
     }
-  }, [images, mosaicMode]);
+  }, [images, mosaicMode, mosaicGrid, toDownloadableOutput, getNaming]);
 
   const handleDownloadAll = useCallback(() => {
     const completedImages = images.filter(img => img.status === 'completed');
@@ -194,76 +699,82 @@ const Index = () => {
       return;
     }
     
-    try {
-      if (mosaicMode) {
-        let downloadedCount = 0;
-        completedImages.forEach((image, index) => {
-          if (!image.mosaicPieces || image.mosaicPieces.length === 0) {
-            console.warn('Skipping image with no mosaic pieces:', image.file.name);
-            if (image.convertedBlob) {
-              const filename = image.file.name.replace(
-                /\.[^/.]+$/, 
-                `_resized.${image.file.name.split('.').pop()}`
-              );
-              setTimeout(() => {
-                downloadBlob(image.convertedBlob!, filename);
-                downloadedCount++;
-              }, index * 100);
-            }
-            return;
-          }
-          
-          const baseFilename = image.file.name.replace(/\.[^/.]+$/, '');
-          console.log(`Downloading mosaic for ${baseFilename} with ${image.mosaicPieces.length} pieces`);
-          
-          setTimeout(() => {
-            downloadBlobsAsZip(image.mosaicPieces!, baseFilename)
-              .then(() => {
-                downloadedCount++;
-                toast.success(`Mosaico de ${image.file.name} baixado`);
-              })
-              .catch(error => {
-                console.error('Failed to download mosaic:', error);
-                toast.error(`Falha ao baixar o mosaico ${baseFilename}`);
-              });
-          }, index * 1000);
-        });
-        
-        toast.success(
-          `${completedImages.length} ${
-            completedImages.length === 1 ? 'mosaico será baixado' : 'mosaicos serão baixados'
-          }`
-        );
-      } else {
-        completedImages.forEach((image, index) => {
-          if (!image.convertedBlob) {
-            console.warn('Skipping image with no converted blob:', image.file.name);
-            return;
-          }
-          
-          const filename = image.file.name.replace(
-            /\.[^/.]+$/, 
-            `_resized.${image.file.name.split('.').pop()}`
-          );
-          
-          setTimeout(() => {
-            downloadBlob(image.convertedBlob!, filename);
-          }, index * 100);
-        });
-        
-        toast.success(
-          `${completedImages.length} ${
-            completedImages.length === 1 ? 'imagem baixada' : 'imagens baixadas'
-          }`
-        );
-      }
-    } catch (error) {
-      console.error('Download all error:', error);
-      toast.error('Erro ao baixar as imagens');
+    const naming = getNaming();
+    const filename = getBatchFilename(naming, targetSize.width, targetSize.height, 'zip');
+    // {index} is the position in the whole list, as shown in the grid
+    const outputs = images
+      .map(toDownloadableOutput)
+      .filter((_, index) => images[index].status === 'completed');
+    
+    setArchiveProgress({ entries: 0, totalEntries: 0, percent: 0, currentFile: '' });
+    downloadAllAsZip(outputs, filename, mosaicGrid, naming, setArchiveProgress)
+      .then(() => {
+        toast.success(`${filename} baixado com ${completedImages.length} ${
+          completedImages.length === 1 ? 'imagem' : 'imagens'
+        }`);
+      })
+      .catch((error) => {
+        // The user closed the save dialog
+        if (isAbortError(error)) return;
+        console.error('Download all error:', error);
+        toast.error('Erro ao criar o arquivo zip');
+      })
+      .finally(() => {
+        setArchiveProgress(null);
+      });
+  }, [images, mosaicGrid, targetSize, toDownloadableOutput, getNaming]);
+
+  // Checked from the recorded piece sizes, so the export never starts on a
+  // paper the pieces don't fit
+  const pdfFitError = useMemo(() => {
+    for (const img of images) {
+      if (img.status !== 'completed' || !img.mosaicPieces?.length || !img.encoding) continue;
+      const error = getPdfFitError(img.encoding.width, img.encoding.height, pdfOptions, getBaseFilename(img.file));
+      if (error) return error;
     }
-  }, [images, mosaicMode]);
+    return null;
+  }, [images, pdfOptions]);
+
+  const handleDownloadPdf = useCallback(() => {
+    if (pdfFitError) {
+      toast.error(pdfFitError);
+      return;
+    }
+
+    // {index} is the position in the whole list, as shown in the grid
+    const mosaics = images
+      .map(toDownloadableOutput)
+      .filter((_, index) => images[index].status === 'completed' && images[index].mosaicPieces?.length);
+    const entries = mosaics.map(output => ({
+      name: output.sourceName.replace(/\.[^/.]+$/, ''),
+      pieces: output.mosaicPieces!,
+      assemblyGuide: output.assemblyGuide,
+    }));
+    
+    if (entries.length === 0) {
+      toast.error('Nenhum mosaico pronto para download');
+      return;
+    }
+    
+    const naming = getNaming();
+    const filename = mosaics.length === 1
+      ? getMosaicFilename(mosaics[0], naming, 'pdf')
+      : getBatchFilename(naming, targetSize.width, targetSize.height, 'pdf');
+    toast.info('Gerando PDF...');
+    
+    downloadMosaicsAsPdf(entries, filename, pdfOptions)
+      .then(() => {
+        toast.success(`${filename} baixado com sucesso`);
+      })
+      .catch((error) => {
+        console.error('Failed to download PDF:', error);
+        toast.error(error.message);
+      });
+  }, [images, pdfOptions, pdfFitError, targetSize, toDownloadableOutput, getNaming]);
 
   const handleReset = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    
     images.forEach(image => {
       if (image.convertedUrl) {
         URL.revokeObjectURL(image.convertedUrl);
@@ -274,6 +785,26 @@ const Index = () => {
     toast.info('Todas as imagens foram removidas');
   }, [images]);
 
+  const handleClearStoredSession = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    
+    images.forEach(image => {
+      if (image.convertedUrl) {
+        URL.revokeObjectURL(image.convertedUrl);
+      }
+    });
+    
+    setImages([]);
+    clearSession()
+      .then(() => {
+        toast.success('Sessão salva apagada');
+      })
+      .catch((error) => {
+        console.error('Failed to clear stored session:', error);
+        toast.error('Erro ao apagar a sessão salva');
+      });
+  }, [images, clearSession]);
+
   const handleMosaicModeChange = useCallback((enabled: boolean) => {
     if (images.length > 0) {
       toast.error('Remova todas as imagens antes de mudar o modo');
@@ -283,12 +814,93 @@ const Index = () => {
     setMosaicMode(enabled);
     
     if (enabled) {
-      toast.info('Modo mosaico ativado. Cada imagem será dividida em 9 partes iguais.');
+      toast.info(`Modo mosaico ativado. Cada imagem será dividida em ${getPieceCount(mosaicGrid)} partes iguais.`);
     } else {
       toast.info('Modo mosaico desativado. As imagens serão redimensionadas normalmente.');
     }
+  }, [images.length, mosaicGrid]);
+
+  const handleMosaicConfigChange = useCallback((config: MosaicConfig) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o mosaico');
+      return;
+    }
+    
+    setMosaicConfig(config);
+  }, [images.length]);
+
+  const handleFitModeChange = useCallback((mode: FitMode) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o ajuste');
+      return;
+    }
+    
+    setFitMode(mode);
   }, [images.length]);
 
+  const handleBackgroundChange = useCallback((fill: BackgroundFill) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o fundo');
+      return;
+    }
+    
+    setBackground(fill);
+  }, [images.length]);
+
+  const handleResampleChange = useCallback((options: ResampleOptions) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o redimensionamento');
+      return;
+    }
+    
+    setResample(options);
+  }, [images.length]);
+
+  const handleOutputSettingsChange = useCallback((settings: OutputSettingsValue) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o formato');
+      return;
+    }
+    
+    setOutputSettings(settings);
+  }, [images.length]);
+
+  const handleMetadataChange = useCallback((settings: MetadataSettingsValue) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar os metadados');
+      return;
+    }
+    
+    setMetadata(settings);
+  }, [images.length]);
+
+  const handlePrintModeChange = useCallback((enabled: boolean) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o tamanho');
+      return;
+    }
+    
+    setPrintMode(enabled);
+  }, [images.length]);
+
+  const handlePrintSettingsChange = useCallback((settings: PrintSettings) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o tamanho');
+      return;
+    }
+    
+    setPrintSettings(settings);
+  }, [images.length]);
+
+  const handlePresetChange = useCallback((id: string) => {
+    if (images.length > 0) {
+      toast.error('Remova todas as imagens antes de mudar o tamanho');
+      return;
+    }
+    
+    selectPreset(id);
+  }, [images.length, selectPreset]);
+
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-background to-secondary/20">
       <div className="container max-w-6xl mx-auto px-4 py-8 md:py-16" 
@@ -298,9 +910,15 @@ const Index = () => {
             Redimensione suas imagens com precisão
           </h1>
           <p className="text-muted-foreground max-w-2xl mx-auto text-balance">
-            Transforme suas imagens para 2050px horizontal ou 2994px vertical mantendo a qualidade.
-            {mosaicMode && " No modo mosaico, cada imagem é dividida em 9 partes para impressão em folhas A4."}
+            Transforme suas imagens para {targetSize.width}×{targetSize.height}px mantendo a qualidade.
+            {mosaicMode && ` No modo mosaico, cada imagem é dividida em ${getPieceCount(mosaicGrid)} partes para impressão em folhas ${sheetPaperName}.`}
           </p>
+          <Button variant="outline" size="sm" className="mt-4" asChild>
+            <Link to="/history">
+              <History className="w-4 h-4 mr-2" />
+              Histórico
+            </Link>
+          </Button>
         </header>
         
         <div className="grid gap-8 md:grid-cols-4 animate-fade-in opacity-0" style={{ animationDelay: '0.2s', animationFillMode: 'forwards' }}>
@@ -309,21 +927,150 @@ const Index = () => {
               totalImages={stats.total}
               processedImages={stats.completed}
               onDownloadAll={handleDownloadAll}
+              archiveProgress={archiveProgress}
               onReset={handleReset}
               isProcessing={isProcessing}
+              isPaused={isPaused}
+              onPauseChange={handlePauseChange}
+              onCancelAll={handleCancelAll}
               mosaicMode={mosaicMode}
               onMosaicModeChange={handleMosaicModeChange}
-            />
+              activePreset={targetSize}
+              mosaicGrid={mosaicGrid}
+              fitMode={fitMode}
+              pdfSettings={pdfSettings}
+              onPdfSettingsChange={setPdfSettings}
+              pdfDpi={pdfOptions.dpi}
+              pdfFitError={pdfFitError}
+              onDownloadPdf={handleDownloadPdf}
+            >
+              <PrintSizeSettings
+                enabled={printMode}
+                onEnabledChange={handlePrintModeChange}
+                settings={printSettings}
+                onChange={handlePrintSettingsChange}
+                isMosaicMode={mosaicMode}
+                disabled={settingsLocked}
+              />
+              {!printMode && (
+                <div className="mt-4">
+                  <PresetManager
+                    presets={presets}
+                    activePreset={activePreset}
+                    onSelect={handlePresetChange}
+                    onAdd={addPreset}
+                    onUpdate={updatePreset}
+                    onRemove={removePreset}
+                    onImport={importPresets}
+                    disabled={settingsLocked}
+                  />
+                </div>
+              )}
+              {!mosaicMode && (
+                <div className="mt-4">
+                  <ConversionSettings
+                    fitMode={fitMode}
+                    onFitModeChange={handleFitModeChange}
+                    disabled={settingsLocked}
+                  />
+                </div>
+              )}
+              {mosaicMode && (
+                <div className="mt-4">
+                  <MosaicSettings
+                    config={mosaicConfig}
+                    onChange={handleMosaicConfigChange}
+                    pieceWidth={targetSize.width}
+                    pieceHeight={targetSize.height}
+                    dpi={overlapDpi}
+                    disabled={settingsLocked}
+                  />
+                </div>
+              )}
+              <div className="mt-4">
+                <BackgroundSettings
+                  background={background}
+                  onChange={handleBackgroundChange}
+                  disabled={settingsLocked}
+                />
+              </div>
+              <div className="mt-4">
+                <ResampleSettings
+                  options={resample}
+                  onChange={handleResampleChange}
+                  disabled={settingsLocked}
+                />
+              </div>
+              <div className="mt-4">
+                <OutputSettings
+                  settings={outputSettings}
+                  onChange={handleOutputSettingsChange}
+                  disabled={settingsLocked}
+                />
+              </div>
+              <div className="mt-4">
+                <MetadataSettings
+                  settings={metadata}
+                  onChange={handleMetadataChange}
+                  printDpi={printMode ? printSettings.dpi : undefined}
+                  disabled={settingsLocked}
+                />
+              </div>
+              <div className="mt-4">
+                <FilenameSettings
+                  templates={filenameTemplates}
+                  onChange={setFilenameTemplates}
+                  isMosaicMode={mosaicMode}
+                  pieceTemplateLocked={settingsLocked}
+                  exampleWidth={targetSize.width}
+                  exampleHeight={targetSize.height}
+                  presetName={targetSize.name}
+                />
+              </div>
+              <div className="mt-4">
+                <ProcessingSettings
+                  concurrency={concurrency}
+                  onConcurrencyChange={setConcurrency}
+                />
+              </div>
+              <div className="mt-4">
+                <StoredSessionSettings
+                  usage={storageUsage}
+                  onClear={handleClearStoredSession}
+                  disabled={!sessionRestored}
+                />
+              </div>
+            </ConversionCard>
             
             {images.length > 0 && (
               <div className="hidden md:block text-sm text-muted-foreground">
                 <p className="font-medium mb-1">Especificações:</p>
                 <ul className="list-disc ml-4 space-y-1">
-                  <li>Horizontal: 2050px</li>
-                  <li>Vertical: 2994px</li>
-                  <li>Formatos: JPG, PNG, WebP</li>
+                  <li>Tamanho: {targetSize.name}</li>
+                  <li>Largura: {targetSize.width}px</li>
+                  <li>Altura: {targetSize.height}px</li>
+                  {outputDpi && (
+                    <li>
+                      {mosaicMode ? 'Cada parte' : 'Impressão'}: {formatPrintSize(targetSize.width, targetSize.height, outputDpi, printSettings.unit)}
+                    </li>
+                  )}
+                  {outputDpi && mosaicLayout && (
+                    <li>
+                      Mosaico montado: {formatPrintSize(mosaicLayout.totalWidth, mosaicLayout.totalHeight, outputDpi, printSettings.unit)}
+                    </li>
+                  )}
+                  {!mosaicMode && (
+                    <li>Ajuste: {getFitModeLabel(fitMode)}</li>
+                  )}
+                  <li>Fundo: {getBackgroundLabel(background)}</li>
+                  <li>Redimensionamento: {getResampleLabel(resample)}</li>
+                  <li>Formato: {getOutputLabel(outputSettings)}</li>
+                  <li>Metadados: {getMetadataLabel(metadata)}</li>
                   {mosaicMode && (
-                    <li className="text-primary">Mosaico: 3×3 partes</li>
+                    <li className="text-primary">Mosaico: {formatGrid(mosaicGrid)} partes</li>
+                  )}
+                  {mosaicMode && mosaicConfig.overlap > 0 && (
+                    <li>Sobreposição: {mosaicConfig.overlap}{mosaicConfig.overlapUnit}</li>
                   )}
                 </ul>
               </div>
@@ -331,6 +1078,17 @@ const Index = () => {
           </div>
           
           <div className="col-span-full md:col-span-3">
+            {pendingRerun && (
+              <div className="mb-4">
+                <RerunBanner
+                  createdAt={pendingRerun.batch.createdAt}
+                  imageCount={pendingRerun.items.length}
+                  ready={pendingRerun.applied}
+                  onStart={handleStartRerun}
+                  onDiscard={() => setPendingRerun(null)}
+                />
+              </div>
+            )}
             {images.length === 0 ? (
               <div className="glass-panel rounded-xl overflow-hidden animate-slide-up opacity-0" style={{ animationFillMode: 'forwards' }}>
                 <ImageDropzone onFilesAdded={handleFilesAdded} />
@@ -360,7 +1118,7 @@ const Index = () => {
                 )}>
                   {images.map((image, index) => (
                     <ImagePreview
-                      key={`${image.file.name}-${index}`}
+                      key={image.id}
                       file={image.file}
                       convertedUrl={image.convertedUrl || null}
                       onRemove={() => handleRemoveImage(index)}
@@ -369,6 +1127,21 @@ const Index = () => {
                       onDownload={() => handleDownloadImage(index)}
                       isMosaicMode={mosaicMode}
                       mosaicPieceCount={image.mosaicPieces?.length || 0}
+                      encoding={image.encoding}
+                      mosaicGrid={mosaicGrid}
+                      targetWidth={targetSize.width}
+                      targetHeight={targetSize.height}
+                      printDpi={outputDpi}
+                      printUnit={printSettings.unit}
+                      mosaicPosterSize={mosaicLayout ?? undefined}
+                      fitMode={fitMode}
+                      crop={image.crop}
+                      onEditCrop={() => handleEditCrop(index)}
+                      onCompare={() => setCompareIndex(index)}
+                      onPreviewMosaic={() => setMosaicPreviewIndex(index)}
+                      onCancel={() => handleCancelImage(index)}
+                      onRetry={() => handleRetryImage(index)}
+                      isPaused={isPaused}
                     />
                   ))}
                   
@@ -396,10 +1169,43 @@ const Index = () => {
           </div>
         </div>
         
+        <CropEditorDialog
+          file={cropEditorIndex !== null ? images[cropEditorIndex]?.file ?? null : null}
+          open={cropEditorIndex !== null}
+          onOpenChange={(open) => !open && setCropEditorIndex(null)}
+          aspect={cropAspect}
+          aspectLabel={mosaicMode ? `pôster ${formatGrid(mosaicGrid)}` : formatPresetSize(targetSize)}
+          crop={cropEditorIndex !== null ? images[cropEditorIndex]?.crop : undefined}
+          onApply={handleApplyCrop}
+        />
+        
+        <CompareDialog
+          file={compareImage?.file ?? null}
+          convertedUrl={compareImage?.status === 'completed' ? compareImage.convertedUrl ?? null : null}
+          open={compareIndex !== null}
+          onOpenChange={(open) => !open && setCompareIndex(null)}
+          targetWidth={targetSize.width}
+          targetHeight={targetSize.height}
+          fitMode={fitMode}
+          crop={compareImage?.crop}
+          outputWidth={compareImage?.encoding?.width}
+          outputHeight={compareImage?.encoding?.height}
+        />
+        
+        <MosaicPreviewDialog
+          renderPoster={renderPreviewPoster}
+          pieces={mosaicPreviewImage?.mosaicPieces}
+          layout={mosaicLayout}
+          pieceWidth={mosaicPreviewImage?.encoding?.width}
+          pieceHeight={mosaicPreviewImage?.encoding?.height}
+          open={mosaicPreviewIndex !== null}
+          onOpenChange={(open) => !open && setMosaicPreviewIndex(null)}
+        />
+        
         <footer className="mt-16 text-center text-sm text-muted-foreground animate-fade-in opacity-0" style={{ animationDelay: '0.3s', animationFillMode: 'forwards' }}>
           <p>
             {mosaicMode 
-              ? "Crie mosaicos 3×3 para impressão em folhas A4 e monte painéis de grande formato" 
+              ? `Crie mosaicos ${formatGrid(mosaicGrid)} para impressão em folhas ${sheetPaperName} e monte painéis de grande formato` 
               : "Redimensione múltiplas imagens rapidamente sem comprometer a qualidade"}
           </p>
         </footer>
@@ -0,0 +1,24 @@
+/**
+ * Cancellation helpers shared by the renderer, the workers and the scheduler
+ */
+
+/**
+ * Error used when a job is cancelled, recognisable with isAbortError()
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Processing cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Stop a job between steps once its signal is aborted. (AbortSignal has its
+ * own throwIfAborted, but not in every browser we support.)
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
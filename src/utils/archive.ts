@@ -0,0 +1,322 @@
+/**
+ * Zip archives of finished outputs. Entries are written one after the other
+ * to a sink, straight to disk when the browser can save through a file
+ * handle, so even huge batches never need a second in-memory copy.
+ */
+
+import { crc32 } from './crc32';
+
+export interface ArchiveEntry {
+  /** Path inside the archive, with "/" between folders */
+  path: string;
+  blob: Blob;
+}
+
+export interface ArchiveProgress {
+  /** Entries written so far */
+  entries: number;
+  totalEntries: number;
+  /** Share of the bytes written so far, in whole percent */
+  percent: number;
+  /** Path of the entry that was just written */
+  currentFile: string;
+}
+
+/**
+ * Destination of an archive as it is written
+ */
+export interface ArchiveSink {
+  write(data: Blob | Uint8Array): Promise<void>;
+  /** Finish the archive; returns it when it was kept in memory, null when it went to disk */
+  close(): Promise<Blob | null>;
+  abort(): Promise<void>;
+}
+
+/** Subset of the File System Access API used to save archives */
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+/** Versions needed to extract: 2.0 for plain entries, 4.5 for ZIP64 */
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+/** General purpose flag: names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+/** Values that make readers look in the ZIP64 records instead */
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+const textEncoder = new TextEncoder();
+
+interface CentralDirectoryEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Path that isn't in `used` yet, numbering repeats as "foto (2).jpg". The
+ * returned path is added to `used`.
+ */
+export function getUniquePath(path: string, used: Set<string>): string {
+  let candidate = path;
+  const match = /^(.*?)(\.[^./]+)?$/.exec(path);
+  const stem = match?.[1] ?? path;
+  const extension = match?.[2] ?? '';
+
+  for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+    candidate = `${stem} (${copy})${extension}`;
+  }
+
+  // Compared case-insensitively, since most file systems ignore case
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Sink that keeps the archive in memory. The entries' blobs are referenced,
+ * not copied, so this costs little more than the outputs themselves.
+ */
+export function createMemorySink(): ArchiveSink {
+  let parts: BlobPart[] = [];
+
+  return {
+    async write(data) {
+      parts.push(data);
+    },
+    async close() {
+      const archive = new Blob(parts, { type: 'application/zip' });
+      parts = [];
+      return archive;
+    },
+    async abort() {
+      parts = [];
+    },
+  };
+}
+
+/**
+ * Sink for a zip file. Where the File System Access API exists the user picks
+ * a file and the archive is written straight to it; elsewhere it is kept in
+ * memory. Must be called while handling a click: the picker needs the user
+ * gesture, and rejects with an AbortError when the user cancels it.
+ */
+export async function openArchiveSink(suggestedName: string): Promise<ArchiveSink> {
+  const picker = typeof window !== 'undefined'
+    ? (window as unknown as SaveFilePickerWindow).showSaveFilePicker
+    : undefined;
+  if (!picker) {
+    return createMemorySink();
+  }
+
+  const handle = await picker({
+    suggestedName,
+    types: [{ description: 'Arquivo ZIP', accept: { 'application/zip': ['.zip'] } }],
+  });
+  const writable = await handle.createWritable();
+
+  return {
+    async write(data) {
+      await writable.write(data);
+    },
+    async close() {
+      await writable.close();
+      return null;
+    },
+    async abort() {
+      await writable.abort();
+    },
+  };
+}
+
+/**
+ * CRC-32 of a blob, read in chunks
+ */
+async function getBlobCrc(blob: Blob): Promise<number> {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return crc;
+    crc = crc32(value, crc);
+  }
+}
+
+/**
+ * Date and time in MS-DOS format, as zip headers store them
+ */
+function getDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function createLocalFileHeader(entry: CentralDirectoryEntry, modified: { time: number; date: number }): Uint8Array {
+  const header = new Uint8Array(30 + entry.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_FILE_HEADER, true);
+  view.setUint16(4, VERSION_DEFAULT, true);
+  view.setUint16(6, FLAG_UTF8, true);
+  view.setUint16(8, 0, true); // stored, no compression
+  view.setUint16(10, modified.time, true);
+  view.setUint16(12, modified.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.size, true);
+  view.setUint32(22, entry.size, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(entry.name, 30);
+  return header;
+}
+
+function createCentralDirectoryHeader(entry: CentralDirectoryEntry, modified: { time: number; date: number }): Uint8Array {
+  // Offsets past 4 GB go in a ZIP64 extra field
+  const zip64 = entry.offset >= MAX_UINT32;
+  const extraLength = zip64 ? 12 : 0;
+  const header = new Uint8Array(46 + entry.name.length + extraLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+  view.setUint16(4, VERSION_ZIP64, true);
+  view.setUint16(6, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(8, FLAG_UTF8, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, modified.time, true);
+  view.setUint16(14, modified.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, entry.size, true);
+  view.setUint32(24, entry.size, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, extraLength, true);
+  // Comment length, disk number and attributes stay 0
+  view.setUint32(42, zip64 ? MAX_UINT32 : entry.offset, true);
+  header.set(entry.name, 46);
+
+  if (zip64) {
+    const extra = 46 + entry.name.length;
+    view.setUint16(extra, ZIP64_EXTRA_FIELD, true);
+    view.setUint16(extra + 2, 8, true);
+    view.setBigUint64(extra + 4, BigInt(entry.offset), true);
+  }
+
+  return header;
+}
+
+/**
+ * End of central directory, preceded by the ZIP64 record and locator when
+ * the archive is too big or has too many entries for the classic one
+ */
+function createEndOfCentralDirectory(entryCount: number, directoryOffset: number, directorySize: number): Uint8Array {
+  const zip64 = entryCount >= MAX_UINT16 || directoryOffset >= MAX_UINT32 || directorySize >= MAX_UINT32;
+  const end = new Uint8Array((zip64 ? 56 + 20 : 0) + 22);
+  const view = new DataView(end.buffer);
+  let offset = 0;
+
+  if (zip64) {
+    view.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY, true);
+    view.setBigUint64(4, BigInt(44), true); // size of the rest of the record
+    view.setUint16(12, VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    view.setBigUint64(24, BigInt(entryCount), true);
+    view.setBigUint64(32, BigInt(entryCount), true);
+    view.setBigUint64(40, BigInt(directorySize), true);
+    view.setBigUint64(48, BigInt(directoryOffset), true);
+
+    view.setUint32(56, ZIP64_END_LOCATOR, true);
+    view.setBigUint64(64, BigInt(directoryOffset + directorySize), true);
+    view.setUint32(72, 1, true); // total number of disks
+    offset = 76;
+  }
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, Math.min(entryCount, MAX_UINT16), true);
+  view.setUint16(offset + 10, Math.min(entryCount, MAX_UINT16), true);
+  view.setUint32(offset + 12, Math.min(directorySize, MAX_UINT32), true);
+  view.setUint32(offset + 16, Math.min(directoryOffset, MAX_UINT32), true);
+  return end;
+}
+
+/**
+ * Write a zip to a sink, one entry at a time. Images are already compressed,
+ * so entries are stored as they are. Repeated paths are numbered. The sink is
+ * closed when done and aborted on failure.
+ */
+export async function writeZipArchive(
+  entries: ArchiveEntry[],
+  sink: ArchiveSink,
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<Blob | null> {
+  try {
+    if (entries.length === 0) {
+      throw new Error('No files to archive');
+    }
+
+    const modified = getDosDateTime(new Date());
+    const totalBytes = entries.reduce((total, entry) => total + entry.blob.size, 0);
+    const used = new Set<string>();
+    const directory: CentralDirectoryEntry[] = [];
+    let offset = 0;
+    let written = 0;
+
+    for (const entry of entries) {
+      if (entry.blob.size >= MAX_UINT32) {
+        throw new Error(`${entry.path} is too large for a zip entry`);
+      }
+
+      const path = getUniquePath(entry.path, used);
+      const record = {
+        name: textEncoder.encode(path),
+        crc: await getBlobCrc(entry.blob),
+        size: entry.blob.size,
+        offset,
+      };
+      const header = createLocalFileHeader(record, modified);
+      await sink.write(header);
+      await sink.write(entry.blob);
+      directory.push(record);
+      offset += header.length + record.size;
+      written += record.size;
+
+      onProgress?.({
+        entries: directory.length,
+        totalEntries: entries.length,
+        percent: totalBytes > 0 ? Math.floor((written / totalBytes) * 100) : 100,
+        currentFile: path,
+      });
+    }
+
+    let directorySize = 0;
+    for (const record of directory) {
+      const header = createCentralDirectoryHeader(record, modified);
+      await sink.write(header);
+      directorySize += header.length;
+    }
+    await sink.write(createEndOfCentralDirectory(directory.length, offset, directorySize));
+
+    return await sink.close();
+  } catch (error) {
+    await sink.abort().catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Build a zip in memory
+ */
+export function createZipArchive(
+  entries: ArchiveEntry[],
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<Blob> {
+  return writeZipArchive(entries, createMemorySink(), onProgress) as Promise<Blob>;
+}
@@ -0,0 +1,174 @@
+/**
+ * Overview sheet that shows how the pieces of a mosaic fit together. It is
+ * drawn by the renderer from the composed poster, so it runs in the
+ * processing worker like the pieces themselves.
+ */
+
+import { canvasToBlob, createCanvas, getContext2D, type AnyCanvas } from './canvas';
+import { throwIfAborted } from './abort';
+import type { MosaicLayout } from './mosaicLayout';
+import { formatPrintSize, type PrintUnit } from './units';
+
+const GUIDE_MAX_POSTER_WIDTH = 1400;
+const GUIDE_MAX_POSTER_HEIGHT = 1400;
+const GUIDE_PADDING = 48;
+const GUIDE_HEADER_HEIGHT = 96;
+const GUIDE_FOOTER_HEIGHT = 120;
+/** Smallest font a piece label shrinks to when its name is long */
+const GUIDE_MIN_LABEL_SIZE = 9;
+
+/** Resolution and unit the assembled size is given in */
+export interface GuidePrintSize {
+  dpi: number;
+  unit: PrintUnit;
+}
+
+/**
+ * "6150 × 8982 px (52,1 × 76 cm a 300 dpi)" description of the assembled poster
+ */
+export function formatAssembledSize(
+  layout: Pick<MosaicLayout, 'totalWidth' | 'totalHeight'>,
+  { dpi, unit }: GuidePrintSize
+): string {
+  return `${layout.totalWidth} × ${layout.totalHeight} px (${formatPrintSize(layout.totalWidth, layout.totalHeight, dpi, unit)} a ${dpi} dpi)`;
+}
+
+/** What the guide needs besides the poster and its layout */
+export interface AssemblyGuideOptions {
+  posterName: string;
+  printSize: GuidePrintSize;
+  /** Filename of every piece, in row-major order, so each cell names its file */
+  pieceNames: string[];
+}
+
+/**
+ * Render the assembly guide: a downscaled version of the composed poster with
+ * every piece outlined and labelled with its filename, plus the final
+ * dimensions.
+ */
+export async function renderAssemblyGuide(
+  poster: AnyCanvas,
+  layout: MosaicLayout,
+  { posterName, printSize, pieceNames }: AssemblyGuideOptions,
+  signal?: AbortSignal
+): Promise<Blob> {
+  throwIfAborted(signal);
+  const scale = Math.min(
+    GUIDE_MAX_POSTER_WIDTH / layout.totalWidth,
+    GUIDE_MAX_POSTER_HEIGHT / layout.totalHeight
+  );
+  const posterWidth = Math.round(layout.totalWidth * scale);
+  const posterHeight = Math.round(layout.totalHeight * scale);
+
+  const canvas = createCanvas(
+    Math.max(posterWidth, 900) + GUIDE_PADDING * 2,
+    posterHeight + GUIDE_HEADER_HEIGHT + GUIDE_FOOTER_HEIGHT + GUIDE_PADDING * 2
+  );
+  const ctx = getContext2D(canvas);
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const posterX = Math.round((canvas.width - posterWidth) / 2);
+  const posterY = GUIDE_PADDING + GUIDE_HEADER_HEIGHT;
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Title
+  ctx.fillStyle = '#111827';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.font = 'bold 36px sans-serif';
+  ctx.fillText('Guia de montagem', GUIDE_PADDING, GUIDE_PADDING, canvas.width - GUIDE_PADDING * 2);
+  ctx.font = '24px sans-serif';
+  ctx.fillStyle = '#4B5563';
+  ctx.fillText(posterName, GUIDE_PADDING, GUIDE_PADDING + 46, canvas.width - GUIDE_PADDING * 2);
+
+  // The poster as the pieces are cut from it, downscaled
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(poster, posterX, posterY, posterWidth, posterHeight);
+
+  // Shade the overlap strips so it is clear where pieces cover each other
+  if (layout.overlap > 0) {
+    ctx.fillStyle = 'rgba(37, 99, 235, 0.25)';
+    const overlap = layout.overlap * scale;
+    for (const piece of layout.pieces) {
+      if (piece.col > 0) {
+        ctx.fillRect(posterX + piece.x * scale, posterY + piece.y * scale, overlap, piece.height * scale);
+      }
+      if (piece.row > 0) {
+        ctx.fillRect(posterX + piece.x * scale, posterY + piece.y * scale, piece.width * scale, overlap);
+      }
+    }
+  }
+
+  // Piece outlines and filenames
+  const labelSize = Math.max(12, Math.min(28, Math.min(posterWidth / layout.grid.cols, posterHeight / layout.grid.rows) / 8));
+  for (const piece of layout.pieces) {
+    const x = posterX + piece.x * scale;
+    const y = posterY + piece.y * scale;
+    const width = piece.width * scale;
+    const height = piece.height * scale;
+
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 4;
+    ctx.strokeRect(x, y, width, height);
+    ctx.strokeStyle = '#111827';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([10, 6]);
+    ctx.strokeRect(x, y, width, height);
+    ctx.setLineDash([]);
+
+    const label = pieceNames[piece.index] ?? String(piece.index + 1);
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    // Long names shrink to the cell, down to a legible minimum
+    ctx.font = `bold ${Math.round(labelSize)}px sans-serif`;
+    const fontSize = Math.max(
+      GUIDE_MIN_LABEL_SIZE,
+      Math.min(labelSize, (labelSize * (width - 16)) / ctx.measureText(label).width)
+    );
+    ctx.font = `bold ${Math.round(fontSize)}px sans-serif`;
+    const labelWidth = Math.min(ctx.measureText(label).width, width - 16);
+    ctx.fillStyle = 'rgba(17, 24, 39, 0.8)';
+    ctx.fillRect(cx - labelWidth / 2 - 6, cy - fontSize * 0.75, labelWidth + 12, fontSize * 1.5);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText(label, cx, cy, width - 16);
+  }
+
+  // Footer with the final size and reading order
+  const footerY = posterY + posterHeight + 28;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 24px sans-serif';
+  ctx.fillText(
+    `Tamanho montado: ${formatAssembledSize(layout, printSize)}`,
+    GUIDE_PADDING,
+    footerY,
+    canvas.width - GUIDE_PADDING * 2
+  );
+  ctx.font = '20px sans-serif';
+  ctx.fillStyle = '#4B5563';
+  ctx.fillText(
+    `${layout.pieces.length} partes de ${layout.pieceWidth} × ${layout.pieceHeight} px, cada uma marcada com o nome do seu arquivo.`,
+    GUIDE_PADDING,
+    footerY + 38,
+    canvas.width - GUIDE_PADDING * 2
+  );
+  if (layout.overlap > 0) {
+    ctx.fillText(
+      `Áreas em azul: sobreposição de ${layout.overlap} px coberta pela parte seguinte.`,
+      GUIDE_PADDING,
+      footerY + 68,
+      canvas.width - GUIDE_PADDING * 2
+    );
+  }
+
+  throwIfAborted(signal);
+  return canvasToBlob(canvas, 'image/png', 1);
+}
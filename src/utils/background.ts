@@ -0,0 +1,187 @@
+/**
+ * Fills for the canvas areas that the image does not cover
+ */
+
+import type { FitPlacement } from './fitMode';
+import { createCanvas, getContext2D, type Context2D } from './canvas';
+
+export type BackgroundMode = 'color' | 'transparent' | 'blur' | 'auto';
+
+export interface BackgroundFill {
+  mode: BackgroundMode;
+  /** Solid color for 'color', and the fallback when a mode can't be used */
+  color: string;
+}
+
+export const DEFAULT_BACKGROUND: BackgroundFill = { mode: 'color', color: '#FFFFFF' };
+
+export const BACKGROUND_MODES: { value: BackgroundMode; label: string }[] = [
+  { value: 'color', label: 'Cor sólida' },
+  { value: 'transparent', label: 'Transparente' },
+  { value: 'blur', label: 'Imagem desfocada' },
+  { value: 'auto', label: 'Cor da borda (automática)' },
+];
+
+const TRANSPARENT_TYPES = ['image/png', 'image/webp', 'image/avif', 'image/gif'];
+
+/**
+ * Whether an output type keeps an alpha channel
+ */
+export function supportsTransparency(mimeType: string): boolean {
+  return TRANSPARENT_TYPES.includes(mimeType);
+}
+
+/**
+ * Label of a background mode for the UI
+ */
+export function getBackgroundLabel(fill: BackgroundFill): string {
+  const label = BACKGROUND_MODES.find(mode => mode.value === fill.mode)?.label ?? fill.mode;
+  return fill.mode === 'color' ? `${label} ${fill.color.toUpperCase()}` : label;
+}
+
+/**
+ * Dominant color of the outer border of the visible source region. Colors are
+ * grouped in coarse bins and the busiest bin is averaged, so a few stray
+ * pixels don't tint the result the way a plain average would.
+ */
+export function sampleEdgeColor(
+  image: CanvasImageSource,
+  placement: Pick<FitPlacement, 'sx' | 'sy' | 'sw' | 'sh'>,
+  fallback: string = DEFAULT_BACKGROUND.color
+): string {
+  const size = 64;
+  const canvas = createCanvas(size, size);
+  const ctx = getContext2D(canvas, { willReadFrequently: true });
+  if (!ctx) return fallback;
+
+  ctx.drawImage(image, placement.sx, placement.sy, placement.sw, placement.sh, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+
+  const bins = new Map<number, { count: number; r: number; g: number; b: number }>();
+  const border = 3;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (x >= border && x < size - border && y >= border && y < size - border) continue;
+
+      const i = (y * size + x) * 4;
+      if (data[i + 3] < 128) continue;
+
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const bin = bins.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+      bin.count++;
+      bin.r += r;
+      bin.g += g;
+      bin.b += b;
+      bins.set(key, bin);
+    }
+  }
+
+  let best: { count: number; r: number; g: number; b: number } | null = null;
+  for (const bin of bins.values()) {
+    if (!best || bin.count > best.count) best = bin;
+  }
+  if (!best) return fallback;
+
+  const channel = (sum: number) => Math.round(sum / best.count);
+  return `rgb(${channel(best.r)}, ${channel(best.g)}, ${channel(best.b)})`;
+}
+
+/**
+ * Draw a blurred, enlarged copy of the image over the whole canvas. The image
+ * is shrunk to a few dozen pixels and scaled back up, which blurs it the same
+ * way in every browser (ctx.filter is not available everywhere).
+ */
+function drawBlurredCover(
+  ctx: Context2D,
+  image: CanvasImageSource,
+  placement: Pick<FitPlacement, 'sx' | 'sy' | 'sw' | 'sh'>,
+  width: number,
+  height: number
+): void {
+  const scale = Math.max(width / placement.sw, height / placement.sh);
+  const coverWidth = placement.sw * scale;
+  const coverHeight = placement.sh * scale;
+
+  const small = createCanvas(
+    Math.max(1, Math.round(coverWidth / 48)),
+    Math.max(1, Math.round(coverHeight / 48))
+  );
+  const smallCtx = getContext2D(small);
+  if (!smallCtx) return;
+
+  smallCtx.imageSmoothingQuality = 'high';
+  smallCtx.drawImage(
+    image,
+    placement.sx, placement.sy, placement.sw, placement.sh,
+    0, 0, small.width, small.height
+  );
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(small, (width - coverWidth) / 2, (height - coverHeight) / 2, coverWidth, coverHeight);
+  // Soften the copy so the real image stands out
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+}
+
+/**
+ * Paint the background of a width × height canvas before the image is drawn.
+ * Transparency falls back to the solid color when the output type has no
+ * alpha channel.
+ */
+export function paintBackground(
+  ctx: Context2D,
+  image: CanvasImageSource,
+  placement: Pick<FitPlacement, 'sx' | 'sy' | 'sw' | 'sh'>,
+  width: number,
+  height: number,
+  fill: BackgroundFill,
+  outputType: string
+): void {
+  switch (fill.mode) {
+    case 'transparent':
+      if (supportsTransparency(outputType)) {
+        ctx.clearRect(0, 0, width, height);
+        return;
+      }
+      break;
+    case 'blur':
+      ctx.fillStyle = fill.color;
+      ctx.fillRect(0, 0, width, height);
+      drawBlurredCover(ctx, image, placement, width, height);
+      return;
+    case 'auto':
+      ctx.fillStyle = sampleEdgeColor(image, placement, fill.color);
+      ctx.fillRect(0, 0, width, height);
+      return;
+  }
+
+  ctx.fillStyle = fill.color;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/**
+ * Solid color (or transparency) for areas where a blurred image makes no
+ * sense, such as the print margin around mosaic pieces
+ */
+export function paintSolidBackground(
+  ctx: Context2D,
+  width: number,
+  height: number,
+  fill: BackgroundFill,
+  outputType: string,
+  autoColor?: string
+): void {
+  if (fill.mode === 'transparent' && supportsTransparency(outputType)) {
+    ctx.clearRect(0, 0, width, height);
+    return;
+  }
+
+  ctx.fillStyle = fill.mode === 'auto' && autoColor ? autoColor : fill.color;
+  ctx.fillRect(0, 0, width, height);
+}
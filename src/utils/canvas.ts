@@ -0,0 +1,158 @@
+/**
+ * Canvas helpers that work both on the main thread and inside a Web Worker,
+ * where there is no document and OffscreenCanvas takes its place
+ */
+
+import {
+  getOrientationTransform,
+  isQuarterTurn,
+  readExifOrientation,
+  resetExifOrientation,
+} from './exif';
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Decoded, upright image with known dimensions, drawable on any canvas */
+export type DecodedImage = ImageBitmap | HTMLImageElement | AnyCanvas;
+
+/**
+ * New canvas: a DOM canvas when there is a document, OffscreenCanvas otherwise
+ */
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * 2D context of either kind of canvas
+ */
+export function getContext2D(
+  canvas: AnyCanvas,
+  settings?: CanvasRenderingContext2DSettings
+): Context2D | null {
+  return canvas.getContext('2d', settings) as Context2D | null;
+}
+
+/**
+ * Encode either kind of canvas to a blob
+ */
+export function canvasToBlob(canvas: AnyCanvas, type: string, quality: number): Promise<Blob> {
+  if (!(typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement)) {
+    return (canvas as OffscreenCanvas).convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to convert image to blob'));
+      }
+    }, type, quality);
+  });
+}
+
+/** Name of the error thrown where a file can't be decoded to a bitmap and no <img> is available */
+const BITMAP_DECODE_ERROR = 'BitmapDecodeError';
+
+/**
+ * Whether decoding failed only for lack of an <img>, so the file may still
+ * load on the main thread
+ */
+export function isBitmapDecodeError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === BITMAP_DECODE_ERROR;
+}
+
+/**
+ * Decode an image file as stored. createImageBitmap is used where it exists
+ * (always in workers); otherwise the file goes through an image element.
+ */
+async function decodeStoredImage(
+  file: Blob,
+  keepColorProfile: boolean
+): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, {
+        colorSpaceConversion: keepColorProfile ? 'none' : 'default',
+      });
+    } catch (error) {
+      // Some formats (SVG) can't be decoded to a bitmap but load fine in an <img>
+      if (typeof document === 'undefined') {
+        throw new DOMException(error instanceof Error ? error.message : String(error), BITMAP_DECODE_ERROR);
+      }
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = url;
+  });
+}
+
+/**
+ * Decode an image file the right way up. Browsers disagree on whether (and
+ * where) they apply EXIF orientation, so the tag is reset before decoding
+ * and the rotation is applied here instead.
+ *
+ * With keepColorProfile the pixels are left in the file's color space instead
+ * of being converted to sRGB, for outputs that carry the same ICC profile.
+ */
+export async function decodeImage(file: Blob, keepColorProfile: boolean = false): Promise<DecodedImage> {
+  const orientation = await readExifOrientation(file);
+  if (!orientation || orientation.value === 1) {
+    return decodeStoredImage(file, keepColorProfile);
+  }
+
+  const stored = await decodeStoredImage(
+    await resetExifOrientation(file, orientation),
+    keepColorProfile
+  );
+  try {
+    const quarterTurn = isQuarterTurn(orientation.value);
+    const canvas = createCanvas(
+      quarterTurn ? stored.height : stored.width,
+      quarterTurn ? stored.width : stored.height
+    );
+    const ctx = getContext2D(canvas);
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.transform(...getOrientationTransform(orientation.value, stored.width, stored.height));
+    ctx.drawImage(stored, 0, 0);
+    return canvas;
+  } finally {
+    releaseImage(stored);
+  }
+}
+
+/**
+ * Free the memory held by a decoded image as soon as it is no longer needed
+ */
+export function releaseImage(image: DecodedImage): void {
+  if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) {
+    image.close();
+  } else if (!(typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement)) {
+    // Shrinking a canvas releases its backing store right away
+    (image as AnyCanvas).width = 0;
+    (image as AnyCanvas).height = 0;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * CRC-32 (IEEE 802.3), as used by PNG chunks
+ */
+
+let table: Uint32Array | null = null;
+
+function getTable(): Uint32Array {
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      table[n] = c >>> 0;
+    }
+  }
+  return table;
+}
+
+/**
+ * Continue a CRC over more bytes; start with the default of 0
+ */
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+  const lookup = getTable();
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    c = lookup[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
@@ -0,0 +1,95 @@
+/**
+ * Per-image crop rectangles chosen in the crop editor
+ */
+
+/**
+ * Crop rectangle in fractions (0–1) of the source image size, so it stays
+ * valid whatever resolution the image is decoded at
+ */
+export interface SourceCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Convert a crop to source pixels
+ */
+export function getCropPixels(crop: SourceCrop, imageWidth: number, imageHeight: number): PixelRect {
+  return {
+    x: crop.x * imageWidth,
+    y: crop.y * imageHeight,
+    width: crop.width * imageWidth,
+    height: crop.height * imageHeight,
+  };
+}
+
+/**
+ * Size (in fractions) of the largest crop with the given pixel aspect ratio,
+ * divided by zoom
+ */
+export function getCropSize(
+  imageWidth: number,
+  imageHeight: number,
+  aspect: number,
+  zoom: number = 1
+): { width: number; height: number } {
+  const imageAspect = imageWidth / imageHeight;
+  const width = imageAspect > aspect ? aspect / imageAspect : 1;
+  const height = imageAspect > aspect ? 1 : imageAspect / aspect;
+  return { width: width / zoom, height: height / zoom };
+}
+
+/**
+ * Crop with the given aspect ratio centered on a focal point (in fractions),
+ * pushed back inside the image when it would overflow
+ */
+export function getCropAroundPoint(
+  imageWidth: number,
+  imageHeight: number,
+  aspect: number,
+  focusX: number,
+  focusY: number,
+  zoom: number = 1
+): SourceCrop {
+  const { width, height } = getCropSize(imageWidth, imageHeight, aspect, zoom);
+  return {
+    x: clamp(focusX - width / 2, 0, 1 - width),
+    y: clamp(focusY - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Move a crop so it stays inside the image
+ */
+export function clampCrop(crop: SourceCrop): SourceCrop {
+  const width = clamp(crop.width, 0, 1);
+  const height = clamp(crop.height, 0, 1);
+  return {
+    x: clamp(crop.x, 0, 1 - width),
+    y: clamp(crop.y, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Zoom level of a crop relative to the largest crop with its aspect ratio
+ */
+export function getCropZoom(crop: SourceCrop, imageWidth: number, imageHeight: number): number {
+  const aspect = (crop.width * imageWidth) / (crop.height * imageHeight);
+  const full = getCropSize(imageWidth, imageHeight, aspect);
+  return full.width / crop.width;
+}
@@ -0,0 +1,87 @@
+/**
+ * The app's IndexedDB database, shared by the stored session and the history
+ */
+
+const DATABASE_NAME = 'image-sizer';
+const DATABASE_VERSION = 2;
+
+/** Source files of the current session by image id */
+export const SOURCES_STORE = 'sources';
+/** Status and outputs of the current session by image id */
+export const IMAGES_STORE = 'images';
+/** Settings and order of the current session */
+export const SESSION_STORE = 'session';
+/** Summaries of past batches by batch id */
+export const HISTORY_STORE = 'history';
+/** Sources and outputs of past batches, by [batchId, id] */
+export const HISTORY_ITEMS_STORE = 'historyItems';
+export const HISTORY_ITEMS_BY_BATCH = 'batchId';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Promise of an IndexedDB request
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Promise that settles when a transaction is committed
+ */
+export function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+/**
+ * Create the stores added since `oldVersion`
+ */
+function upgradeDatabase(database: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    database.createObjectStore(SOURCES_STORE);
+    database.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+    database.createObjectStore(SESSION_STORE);
+  }
+  if (oldVersion < 2) {
+    database.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    database
+      .createObjectStore(HISTORY_ITEMS_STORE, { keyPath: ['batchId', 'id'] })
+      .createIndex(HISTORY_ITEMS_BY_BATCH, 'batchId');
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const database = request.result;
+        // Another tab with a newer version needs this connection closed
+        database.onversionchange = () => {
+          database.close();
+          databasePromise = null;
+        };
+        resolve(database);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // A later call may succeed, e.g. once the user leaves private browsing
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+}
@@ -0,0 +1,140 @@
+/**
+ * Canvas encoding, with an optional maximum file size
+ */
+
+import { canvasToBlob, createCanvas, getContext2D, type AnyCanvas } from './canvas';
+import { throwIfAborted } from './abort';
+
+export interface EncodedImage {
+  blob: Blob;
+  /** Encoder quality that was used; lossless formats report the requested one */
+  quality: number;
+  width: number;
+  height: number;
+  /** Whether the dimensions had to be reduced to reach the size limit */
+  resized: boolean;
+}
+
+/** Lowest quality tried before the image is made smaller instead */
+const MIN_QUALITY = 0.4;
+/** Encodes per quality search; each one halves the remaining range */
+const QUALITY_SEARCH_STEPS = 6;
+/** Downscales tried before giving up on the size limit */
+const MAX_RESIZE_STEPS = 8;
+
+/**
+ * Copy of a canvas scaled by a factor
+ */
+function scaleCanvas(source: AnyCanvas, scale: number): AnyCanvas {
+  const canvas = createCanvas(
+    Math.max(1, Math.round(source.width * scale)),
+    Math.max(1, Math.round(source.height * scale))
+  );
+  const ctx = getContext2D(canvas);
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Highest quality between MIN_QUALITY and maxQuality whose blob fits in
+ * maxBytes. When nothing fits, the MIN_QUALITY blob is returned so the caller
+ * can see how far off it is.
+ */
+async function searchQuality(
+  canvas: AnyCanvas,
+  type: string,
+  maxQuality: number,
+  maxBytes: number,
+  signal?: AbortSignal
+): Promise<{ blob: Blob; quality: number }> {
+  const top = await canvasToBlob(canvas, type, maxQuality);
+  // PNG ignores the quality argument, so there is nothing to search
+  if (top.size <= maxBytes || type === 'image/png' || maxQuality <= MIN_QUALITY) {
+    return { blob: top, quality: maxQuality };
+  }
+
+  const bottom = await canvasToBlob(canvas, type, MIN_QUALITY);
+  if (bottom.size > maxBytes) {
+    return { blob: bottom, quality: MIN_QUALITY };
+  }
+
+  let best = { blob: bottom, quality: MIN_QUALITY };
+  let low = MIN_QUALITY;
+  let high = maxQuality;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    throwIfAborted(signal);
+    const quality = (low + high) / 2;
+    const blob = await canvasToBlob(canvas, type, quality);
+    if (blob.size <= maxBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Encode a canvas. With maxBytes, the quality is lowered until the blob fits
+ * and, when even MIN_QUALITY is too big, the image is scaled down and the
+ * search starts again.
+ */
+export async function encodeCanvas(
+  canvas: AnyCanvas,
+  type: string,
+  quality: number,
+  maxBytes?: number,
+  signal?: AbortSignal
+): Promise<EncodedImage> {
+  if (!maxBytes) {
+    const blob = await canvasToBlob(canvas, type, quality);
+    return { blob, quality, width: canvas.width, height: canvas.height, resized: false };
+  }
+
+  let source = canvas;
+  for (let step = 0; step <= MAX_RESIZE_STEPS; step++) {
+    throwIfAborted(signal);
+    const result = await searchQuality(source, type, quality, maxBytes, signal);
+    if (result.blob.size <= maxBytes) {
+      return { ...result, width: source.width, height: source.height, resized: source !== canvas };
+    }
+
+    // File size grows roughly with the pixel count, so shrink both sides by
+    // the square root of the overshoot (with some headroom)
+    const scale = Math.min(0.9, Math.max(0.5, Math.sqrt(maxBytes / result.blob.size) * 0.95));
+    source = scaleCanvas(source, scale);
+  }
+
+  throw new Error(`Could not fit image in ${maxBytes} bytes`);
+}
+
+export interface EncodingSummary {
+  /** Lowest quality used by any of the files */
+  quality: number;
+  /** Size of the largest file */
+  size: number;
+  /** Dimensions of the first file */
+  width: number;
+  height: number;
+  resized: boolean;
+}
+
+/**
+ * Worst case of a set of encoded files (one image or every mosaic piece),
+ * which is what matters when checking them against a size limit
+ */
+export function summarizeEncoding(images: EncodedImage[]): EncodingSummary {
+  return {
+    quality: Math.min(...images.map(image => image.quality)),
+    size: Math.max(...images.map(image => image.blob.size)),
+    width: images[0].width,
+    height: images[0].height,
+    resized: images.some(image => image.resized),
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Minimal EXIF reading and rewriting
+ */
+
+/** Tags of the IFD0 entries read or rewritten here */
+const ORIENTATION_TAG = 0x0112;
+const X_RESOLUTION_TAG = 0x011a;
+const Y_RESOLUTION_TAG = 0x011b;
+const RESOLUTION_UNIT_TAG = 0x0128;
+/** Pointer from IFD0 to the GPS IFD */
+const GPS_IFD_TAG = 0x8825;
+/** ResolutionUnit value for dots per inch */
+const UNIT_INCHES = 2;
+/** Bytes per value of each TIFF field type */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+/** How much of the file is searched for the APP1 segment */
+const EXIF_SEARCH_BYTES = 256 * 1024;
+
+export interface ExifOrientation {
+  /** EXIF orientation, 1 (upright) to 8 */
+  value: number;
+  /** Byte offset of the value in the file, so it can be rewritten */
+  offset: number;
+  littleEndian: boolean;
+}
+
+/**
+ * Offset of the IFD0 entry for a tag in the TIFF structure starting at
+ * `tiff`, or null when there is none. The entry's value (or the offset of
+ * it, for values over 4 bytes) is 8 bytes into the entry.
+ */
+function findIfd0Entry(view: DataView, tiff: number, tag: number): number | null {
+  const littleEndian = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+  const entries = view.getUint16(ifd, littleEndian);
+
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (view.getUint16(entry, littleEndian) === tag) return entry;
+  }
+  return null;
+}
+
+/**
+ * Read the EXIF orientation of a JPEG. Returns null for other formats and
+ * for JPEGs without the tag.
+ */
+export async function readExifOrientation(file: Blob): Promise<ExifOrientation | null> {
+  if (file.type && file.type !== 'image/jpeg') return null;
+
+  const view = new DataView(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+
+  try {
+    if (view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+
+      const length = view.getUint16(offset + 2);
+      // APP1 segment starting with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const littleEndian = view.getUint16(tiff) === 0x4949;
+        const entry = findIfd0Entry(view, tiff, ORIENTATION_TAG);
+        if (entry === null) return null;
+
+        const value = view.getUint16(entry + 8, littleEndian);
+        return value >= 1 && value <= 8 ? { value, offset: entry + 8, littleEndian } : null;
+      }
+
+      offset += 2 + length;
+    }
+  } catch {
+    // Truncated or malformed headers are treated as "no orientation"
+  }
+
+  return null;
+}
+
+/**
+ * Copy of the file with its orientation tag set to 1, so any decoder returns
+ * the stored pixels no matter how it treats EXIF
+ */
+export async function resetExifOrientation(file: Blob, orientation: ExifOrientation): Promise<Blob> {
+  const bytes = await file.arrayBuffer();
+  new DataView(bytes).setUint16(orientation.offset, 1, orientation.littleEndian);
+  return new Blob([bytes], { type: file.type });
+}
+
+/**
+ * Drop the GPS IFD of a TIFF structure: its entry is removed from IFD0 and
+ * its bytes are zeroed, so the location doesn't survive in the copied data
+ */
+function removeGpsInfo(bytes: Uint8Array, view: DataView): void {
+  const littleEndian = view.getUint16(0) === 0x4949;
+  const entry = findIfd0Entry(view, 0, GPS_IFD_TAG);
+  if (entry === null) return;
+
+  const gps = view.getUint32(entry + 8, littleEndian);
+  const fields = view.getUint16(gps, littleEndian);
+  for (let i = 0; i < fields; i++) {
+    const field = gps + 2 + i * 12;
+    const size = (TYPE_SIZES[view.getUint16(field + 2, littleEndian)] ?? 1) * view.getUint32(field + 4, littleEndian);
+    // Values over 4 bytes live elsewhere, at the offset the field holds
+    if (size > 4) {
+      const offset = view.getUint32(field + 8, littleEndian);
+      bytes.fill(0, offset, offset + size);
+    }
+  }
+  bytes.fill(0, gps, gps + 2 + fields * 12 + 4);
+
+  // Close the gap in IFD0, moving the next-IFD offset up with the entries
+  const ifd = view.getUint32(4, littleEndian);
+  const entries = view.getUint16(ifd, littleEndian);
+  const end = ifd + 2 + entries * 12;
+  bytes.copyWithin(entry, entry + 12, end + 4);
+  bytes.fill(0, end - 8, end + 4);
+  view.setUint16(ifd, entries - 1, littleEndian);
+}
+
+/**
+ * Copy of EXIF data (a TIFF structure, without the "Exif" header) fit for an
+ * output file: the GPS location is removed, the orientation is reset since
+ * the pixels are already upright, and the resolution is set to the output
+ * DPI when there is one
+ */
+export function prepareExifForOutput(exif: Uint8Array, dpi: number | null): Uint8Array {
+  const copy = exif.slice();
+  const view = new DataView(copy.buffer);
+
+  try {
+    removeGpsInfo(copy, view);
+
+    const littleEndian = view.getUint16(0) === 0x4949;
+    const orientation = findIfd0Entry(view, 0, ORIENTATION_TAG);
+    if (orientation !== null) {
+      view.setUint16(orientation + 8, 1, littleEndian);
+    }
+
+    if (dpi) {
+      for (const tag of [X_RESOLUTION_TAG, Y_RESOLUTION_TAG]) {
+        const entry = findIfd0Entry(view, 0, tag);
+        if (entry !== null) {
+          // Rationals don't fit in the entry, which holds their offset instead
+          const value = view.getUint32(entry + 8, littleEndian);
+          view.setUint32(value, dpi, littleEndian);
+          view.setUint32(value + 4, 1, littleEndian);
+        }
+      }
+
+      const unit = findIfd0Entry(view, 0, RESOLUTION_UNIT_TAG);
+      if (unit !== null) {
+        view.setUint16(unit + 8, UNIT_INCHES, littleEndian);
+      }
+    }
+  } catch {
+    // Malformed entries are left as they were
+  }
+
+  return copy;
+}
+
+/**
+ * Whether an orientation swaps width and height (the 90° rotations)
+ */
+export function isQuarterTurn(orientation: number): boolean {
+  return orientation >= 5 && orientation <= 8;
+}
+
+/**
+ * Transform that draws stored pixels of width × height upright, as the
+ * arguments of ctx.transform()
+ */
+export function getOrientationTransform(
+  orientation: number,
+  width: number,
+  height: number
+): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Output filenames built from templates such as "{name}_parte_{index}",
+ * made safe for every file system
+ */
+
+export interface FilenameTemplates {
+  /** Name of each converted image */
+  image: string;
+  /** Name of each mosaic piece */
+  piece: string;
+  /** Name of a whole mosaic: its zip, its PDF and, with a suffix, its assembly guide */
+  mosaic: string;
+  /** Name of the zip or PDF with the whole batch */
+  batch: string;
+}
+
+export type FilenameTemplateKind = keyof FilenameTemplates;
+
+/** Values the tokens are replaced with */
+export interface FilenameValues {
+  /** Source filename without its extension */
+  name: string;
+  /** 1-based position of the image in the list, or of the piece in its mosaic */
+  index: number;
+  width: number;
+  height: number;
+  /** 1-based row and column of a mosaic piece */
+  row?: number;
+  col?: number;
+  /** Name of the output size */
+  preset: string;
+  date: Date;
+  /** Extension of the encoded type, without the dot */
+  ext: string;
+}
+
+export const DEFAULT_FILENAME_TEMPLATES: FilenameTemplates = {
+  image: '{name}_resized',
+  piece: '{name}_parte_{index}_L{row}-C{col}',
+  mosaic: '{name}_mosaico',
+  batch: 'lote_{preset}_{date}',
+};
+
+/** Appended to the mosaic name to name its assembly guide */
+export const ASSEMBLY_GUIDE_SUFFIX = '_guia_de_montagem';
+
+/** Tokens, with the only kinds of template they make sense in when restricted */
+export const FILENAME_TOKENS: { token: keyof FilenameValues; description: string; kinds?: FilenameTemplateKind[] }[] = [
+  { token: 'name', description: 'nome do arquivo original', kinds: ['image', 'piece', 'mosaic'] },
+  { token: 'index', description: 'número da imagem ou da parte', kinds: ['image', 'piece', 'mosaic'] },
+  { token: 'width', description: 'largura em px' },
+  { token: 'height', description: 'altura em px' },
+  { token: 'row', description: 'linha da parte', kinds: ['piece'] },
+  { token: 'col', description: 'coluna da parte', kinds: ['piece'] },
+  { token: 'preset', description: 'tamanho escolhido' },
+  { token: 'date', description: 'data (AAAA-MM-DD)' },
+  { token: 'ext', description: 'extensão, adicionada ao fim quando omitida' },
+];
+
+/**
+ * Tokens a kind of template can use
+ */
+export function getFilenameTokens(kind: FilenameTemplateKind): typeof FILENAME_TOKENS {
+  return FILENAME_TOKENS.filter(token => !token.kinds || token.kinds.includes(kind));
+}
+
+/** {token}, or {token:3} to zero-pad a number to 3 digits */
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*]/g;
+/** Device names Windows won't accept as a filename, with or without extension */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+/** Leaves room for a folder and the " (2)" of a repeated name */
+const MAX_FILENAME_LENGTH = 180;
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function getTokenValue(token: string, values: FilenameValues): string | number | undefined {
+  switch (token) {
+    case 'name': return values.name;
+    case 'index': return values.index;
+    case 'width': return values.width;
+    case 'height': return values.height;
+    case 'row': return values.row ?? 1;
+    case 'col': return values.col ?? 1;
+    case 'preset': return values.preset;
+    case 'date': return formatDate(values.date);
+    case 'ext': return values.ext;
+    default: return undefined;
+  }
+}
+
+/**
+ * Make a filename safe: accents are dropped, characters that are illegal on
+ * some file system become "_" and so do spaces
+ */
+export function sanitizeFilename(filename: string): string {
+  const cleaned = Array.from(
+    filename.normalize('NFD').replace(/[\u0300-\u036f]/g, ''),
+    char => (char.charCodeAt(0) < 32 ? '_' : char)
+  )
+    .join('')
+    .replace(ILLEGAL_CHARACTERS, '_')
+    .replace(/\s+/g, '_')
+    .replace(/_{2,}/g, '_')
+    // Windows drops trailing dots, and leading ones hide the file elsewhere
+    .replace(/^[._]+|[._]+$/g, '');
+
+  const dot = cleaned.lastIndexOf('.');
+  let stem = dot > 0 ? cleaned.slice(0, dot) : cleaned;
+  const extension = dot > 0 ? cleaned.slice(dot) : '';
+
+  if (!stem) stem = 'imagem';
+  if (RESERVED_NAMES.test(stem)) stem = `_${stem}`;
+  stem = stem.slice(0, MAX_FILENAME_LENGTH - extension.length);
+
+  return `${stem}${extension}`;
+}
+
+/**
+ * Fill in a template and sanitize the result. The extension is appended when
+ * the template has no {ext}; unknown tokens are kept as they are.
+ */
+export function formatFilename(template: string, values: FilenameValues): string {
+  let hasExtension = false;
+  const filename = template.replace(TOKEN_PATTERN, (match, token: string, width?: string) => {
+    const value = getTokenValue(token, values);
+    if (value === undefined) return match;
+    if (token === 'ext') hasExtension = true;
+    return width && typeof value === 'number' ? String(value).padStart(Number(width), '0') : String(value);
+  });
+
+  return sanitizeFilename(hasExtension ? filename : `${filename}.${values.ext}`);
+}
+
+/**
+ * Why a template can't be used, or null when it can
+ */
+export function getFilenameTemplateError(template: string, kind: FilenameTemplateKind): string | null {
+  if (!template.trim()) {
+    return 'Informe um modelo de nome';
+  }
+
+  const tokens = getFilenameTokens(kind);
+  for (const [, token] of template.matchAll(TOKEN_PATTERN)) {
+    if (!tokens.some(candidate => candidate.token === token)) {
+      return `Campo desconhecido: {${token}}`;
+    }
+  }
+
+  // Repeated names would still be numbered, but "foto (2)" says nothing about the piece
+  const uses = (token: string) => new RegExp(`\\{${token}(:\\d+)?\\}`).test(template);
+  if (kind === 'piece' && !uses('index') && !(uses('row') && uses('col'))) {
+    return 'O nome das partes precisa de {index} ou de {row} e {col}';
+  }
+
+  return null;
+}
@@ -0,0 +1,154 @@
+/**
+ * How a single image is fitted into the target size
+ */
+
+import type { PixelRect } from './crop';
+
+export type FitMode = 'contain' | 'cover' | 'stretch' | 'scale';
+
+export const DEFAULT_FIT_MODE: FitMode = 'contain';
+
+export const FIT_MODES: { value: FitMode; label: string; description: string }[] = [
+  {
+    value: 'contain',
+    label: 'Ajustar com margens',
+    description: 'Tela exata, imagem inteira centralizada com preenchimento',
+  },
+  {
+    value: 'cover',
+    label: 'Preencher (cortar)',
+    description: 'Tela exata, imagem ampliada e cortada para cobrir tudo',
+  },
+  {
+    value: 'stretch',
+    label: 'Esticar',
+    description: 'Tela exata, imagem deformada para ocupar tudo',
+  },
+  {
+    value: 'scale',
+    label: 'Só redimensionar',
+    description: 'Sem tela fixa, imagem redimensionada para caber no tamanho',
+  },
+];
+
+export interface FitPlacement {
+  /** Size of the output canvas */
+  canvasWidth: number;
+  canvasHeight: number;
+  /** Region of the source image that is drawn */
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  /** Where that region lands on the canvas */
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+/**
+ * Compute the output canvas and draw rectangles for a fit mode. When a crop
+ * is given, only that region of the source takes part in the fit.
+ */
+export function computeFitPlacement(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  mode: FitMode = DEFAULT_FIT_MODE,
+  crop?: PixelRect
+): FitPlacement {
+  if (crop) {
+    const placement = computeFitPlacement(crop.width, crop.height, targetWidth, targetHeight, mode);
+    return { ...placement, sx: placement.sx + crop.x, sy: placement.sy + crop.y };
+  }
+
+  const fullSource = { sx: 0, sy: 0, sw: sourceWidth, sh: sourceHeight };
+
+  switch (mode) {
+    case 'cover': {
+      // Crop the source to the target aspect ratio, centered
+      const scale = Math.max(targetWidth / sourceWidth, targetHeight / sourceHeight);
+      const sw = targetWidth / scale;
+      const sh = targetHeight / scale;
+      return {
+        canvasWidth: targetWidth,
+        canvasHeight: targetHeight,
+        sx: (sourceWidth - sw) / 2,
+        sy: (sourceHeight - sh) / 2,
+        sw,
+        sh,
+        dx: 0,
+        dy: 0,
+        dw: targetWidth,
+        dh: targetHeight,
+      };
+    }
+    case 'stretch':
+      return {
+        canvasWidth: targetWidth,
+        canvasHeight: targetHeight,
+        ...fullSource,
+        dx: 0,
+        dy: 0,
+        dw: targetWidth,
+        dh: targetHeight,
+      };
+    case 'scale': {
+      const scale = Math.min(targetWidth / sourceWidth, targetHeight / sourceHeight);
+      const width = Math.max(1, Math.round(sourceWidth * scale));
+      const height = Math.max(1, Math.round(sourceHeight * scale));
+      return {
+        canvasWidth: width,
+        canvasHeight: height,
+        ...fullSource,
+        dx: 0,
+        dy: 0,
+        dw: width,
+        dh: height,
+      };
+    }
+    case 'contain':
+    default: {
+      const scale = Math.min(targetWidth / sourceWidth, targetHeight / sourceHeight);
+      const dw = sourceWidth * scale;
+      const dh = sourceHeight * scale;
+      return {
+        canvasWidth: targetWidth,
+        canvasHeight: targetHeight,
+        ...fullSource,
+        dx: (targetWidth - dw) / 2,
+        dy: (targetHeight - dh) / 2,
+        dw,
+        dh,
+      };
+    }
+  }
+}
+
+/**
+ * Where the whole source lands on the canvas, including the parts that are
+ * cropped away, so the original can be laid exactly over the output
+ */
+export function getSourceRectOnCanvas(
+  placement: FitPlacement,
+  sourceWidth: number,
+  sourceHeight: number
+): PixelRect {
+  const scaleX = placement.dw / placement.sw;
+  const scaleY = placement.dh / placement.sh;
+  return {
+    x: placement.dx - placement.sx * scaleX,
+    y: placement.dy - placement.sy * scaleY,
+    width: sourceWidth * scaleX,
+    height: sourceHeight * scaleY,
+  };
+}
+
+/**
+ * Label of a fit mode for the UI
+ */
+export function getFitModeLabel(mode: FitMode): string {
+  return FIT_MODES.find(option => option.value === mode)?.label ?? mode;
+}
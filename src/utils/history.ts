@@ -0,0 +1,259 @@
+/**
+ * Past batches: the settings, sources and outputs of every processed queue,
+ * kept in IndexedDB so they can be downloaded or run again
+ */
+
+import {
+  HISTORY_ITEMS_BY_BATCH,
+  HISTORY_ITEMS_STORE,
+  HISTORY_STORE,
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+} from './database';
+import { isQuotaExceededError, toRecord, type SessionSettings, type StoredImage } from './sessionStore';
+import { DEFAULT_FILENAME_TEMPLATES } from './filenameTemplate';
+import { getFitModeLabel } from './fitMode';
+import { formatGrid } from './mosaicLayout';
+import { getOutputLabel } from './outputFormat';
+import type { DownloadableOutput, OutputNaming } from './imageProcessor';
+
+/** Batches kept; recording a new one drops the oldest past this */
+const MAX_HISTORY_BATCHES = 30;
+/** Output bytes kept across batches; the oldest batches are dropped past this */
+const MAX_HISTORY_BYTES = 500 * 1024 * 1024;
+
+/** Output size (or mosaic piece size) a batch was made at */
+export interface BatchTarget {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface HistoryBatch {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  settings: SessionSettings;
+  target: BatchTarget;
+  /** Items of the batch, in queue order */
+  imageIds: string[];
+  completedCount: number;
+  /** Items that failed or were cancelled */
+  failedCount: number;
+  /** Bytes of every output, assembly guides included */
+  totalOutputSize: number;
+}
+
+/** What a batch summary is recorded from; ids and dates are filled in */
+export type HistoryBatchSummary = Omit<HistoryBatch, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface HistoryItem extends StoredImage {
+  batchId: string;
+}
+
+/** Navigation state that asks the converter to run a batch again */
+export interface RerunRequest {
+  batchId: string;
+  /** Load the settings for editing instead of starting right away */
+  edit: boolean;
+}
+
+export function createBatchId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Bytes of the outputs of one item
+ */
+export function getOutputSize(image: StoredImage): number {
+  const pieces = image.mosaicPieces ?? [];
+  return (image.convertedBlob?.size ?? 0)
+    + pieces.reduce((total, piece) => total + piece.size, 0)
+    + (image.assemblyGuide?.size ?? 0);
+}
+
+/**
+ * Summary of a queue, as recorded in the history
+ */
+export function summarizeBatch(
+  images: StoredImage[],
+  settings: SessionSettings,
+  target: BatchTarget
+): HistoryBatchSummary {
+  return {
+    settings,
+    target: { name: target.name, width: target.width, height: target.height },
+    imageIds: images.map(image => image.id),
+    completedCount: images.filter(image => image.status === 'completed').length,
+    failedCount: images.filter(image => image.status === 'error' || image.status === 'cancelled').length,
+    totalOutputSize: images.reduce((total, image) => total + getOutputSize(image), 0),
+  };
+}
+
+/**
+ * Every recorded batch, newest first
+ */
+export async function listHistoryBatches(): Promise<HistoryBatch[]> {
+  const database = await openDatabase();
+  const transaction = database.transaction(HISTORY_STORE, 'readonly');
+  const batches = await requestToPromise(transaction.objectStore(HISTORY_STORE).getAll()) as HistoryBatch[];
+  return batches.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Id of the batch that already holds any of these items. A queue restored
+ * after a reload keeps adding to the batch it started.
+ */
+export async function findHistoryBatchId(imageIds: string[]): Promise<string | null> {
+  const ids = new Set(imageIds);
+  const batches = await listHistoryBatches();
+  return batches.find(batch => batch.imageIds.some(id => ids.has(id)))?.id ?? null;
+}
+
+/**
+ * Queue the removal of a batch and its items in a transaction
+ */
+function deleteBatchRecords(transaction: IDBTransaction, id: string): void {
+  transaction.objectStore(HISTORY_STORE).delete(id);
+  transaction.objectStore(HISTORY_ITEMS_STORE).delete(IDBKeyRange.bound([id], [id, []]));
+}
+
+/**
+ * Drop the oldest batches past the count and size limits, never `keepId`
+ */
+async function evictOldBatches(keepId: string): Promise<void> {
+  const batches = await listHistoryBatches();
+  let bytes = 0;
+  const evicted = batches.filter((batch, i) => {
+    bytes += batch.totalOutputSize;
+    return batch.id !== keepId && (i >= MAX_HISTORY_BATCHES || bytes > MAX_HISTORY_BYTES);
+  });
+  if (evicted.length === 0) return;
+
+  const database = await openDatabase();
+  const transaction = database.transaction([HISTORY_STORE, HISTORY_ITEMS_STORE], 'readwrite');
+  evicted.forEach(batch => deleteBatchRecords(transaction, batch.id));
+  await transactionToPromise(transaction);
+}
+
+async function writeHistoryBatch(
+  id: string,
+  summary: HistoryBatchSummary,
+  changed: StoredImage[],
+  removed: string[]
+): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([HISTORY_STORE, HISTORY_ITEMS_STORE], 'readwrite');
+  const batches = transaction.objectStore(HISTORY_STORE);
+  const items = transaction.objectStore(HISTORY_ITEMS_STORE);
+  const existing = await requestToPromise(batches.get(id)) as HistoryBatch | undefined;
+
+  for (const image of changed) {
+    const item: HistoryItem = { ...toRecord(image), file: image.file, batchId: id };
+    items.put(item);
+  }
+  for (const imageId of removed) {
+    items.delete([id, imageId]);
+  }
+
+  const now = Date.now();
+  batches.put({ ...summary, id, createdAt: existing?.createdAt ?? now, updatedAt: now });
+
+  await transactionToPromise(transaction);
+}
+
+/**
+ * Record a batch: its summary, the `changed` items and the removal of
+ * `removed` ones, in one transaction. The history keeps the newest batches
+ * within its limits, and drops more of the oldest ones when storage runs out.
+ */
+export async function saveHistoryBatch(
+  id: string,
+  summary: HistoryBatchSummary,
+  changed: StoredImage[],
+  removed: string[]
+): Promise<void> {
+  for (;;) {
+    try {
+      await writeHistoryBatch(id, summary, changed, removed);
+      break;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error;
+      // Make room one batch at a time, oldest first, until none is left
+      const oldest = (await listHistoryBatches()).filter(batch => batch.id !== id).pop();
+      if (!oldest) throw error;
+      await deleteHistoryBatch(oldest.id);
+    }
+  }
+
+  await evictOldBatches(id);
+}
+
+/**
+ * A batch with its items in queue order, or null when it is gone
+ */
+export async function loadHistoryBatch(id: string): Promise<{ batch: HistoryBatch; items: HistoryItem[] } | null> {
+  const database = await openDatabase();
+  const transaction = database.transaction([HISTORY_STORE, HISTORY_ITEMS_STORE], 'readonly');
+  const [batch, items] = await Promise.all([
+    requestToPromise(transaction.objectStore(HISTORY_STORE).get(id)) as Promise<HistoryBatch | undefined>,
+    requestToPromise(
+      transaction.objectStore(HISTORY_ITEMS_STORE).index(HISTORY_ITEMS_BY_BATCH).getAll(id)
+    ) as Promise<HistoryItem[]>,
+  ]);
+  if (!batch) return null;
+
+  const position = new Map(batch.imageIds.map((imageId, i) => [imageId, i]));
+  items.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+  return { batch, items };
+}
+
+export async function deleteHistoryBatch(id: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([HISTORY_STORE, HISTORY_ITEMS_STORE], 'readwrite');
+  deleteBatchRecords(transaction, id);
+  await transactionToPromise(transaction);
+}
+
+/**
+ * Finished outputs of a batch, ready for downloadAllAsZip
+ */
+export function getHistoryOutputs(batch: HistoryBatch, items: HistoryItem[]): DownloadableOutput[] {
+  return items.flatMap((item, index) => item.status === 'completed'
+    ? [{
+        sourceName: item.file.name,
+        index: index + 1,
+        width: item.encoding?.width ?? batch.target.width,
+        height: item.encoding?.height ?? batch.target.height,
+        convertedBlob: item.convertedBlob,
+        mosaicPieces: item.mosaicPieces,
+        assemblyGuide: item.assemblyGuide,
+      }]
+    : []);
+}
+
+/**
+ * How the outputs of a batch are named, with the batch's own date in {date}
+ */
+export function getHistoryNaming(batch: HistoryBatch): OutputNaming {
+  return {
+    templates: { ...DEFAULT_FILENAME_TEMPLATES, ...batch.settings.filenameTemplates },
+    preset: batch.target.name,
+    date: new Date(batch.createdAt),
+  };
+}
+
+/**
+ * Short description of the settings, e.g. "A4 · Mosaico 3×3 · JPEG 90%"
+ */
+export function getBatchSettingsLabel(batch: HistoryBatch): string {
+  const { settings, target } = batch;
+  const mode = settings.mosaicMode
+    ? `Mosaico ${formatGrid(settings.mosaicConfig.grid)}`
+    : getFitModeLabel(settings.fitMode);
+  return [`${target.name} (${target.width}×${target.height}px)`, mode, getOutputLabel(settings.outputSettings)].join(' · ');
+}
@@ -2,225 +2,144 @@
  * Utility functions for image processing and conversion
  */
 
+import { DEFAULT_PRESET } from './sizePresets';
+import {
+  computeMosaicLayout,
+  type MosaicGrid,
+} from './mosaicLayout';
+import { getExtensionForType } from './outputFormat';
+import type { EncodedImage } from './encoder';
+import { getMosaicMargin, type ConvertOptions, type MosaicOptions, type MosaicResult } from './imageRenderer';
+import { processImageTask } from './imageWorkerClient';
+import { canvasToBlob, createCanvas, decodeImage, getContext2D, releaseImage } from './canvas';
+import { supportsTransparency } from './background';
+import {
+  createZipArchive,
+  getUniquePath,
+  openArchiveSink,
+  writeZipArchive,
+  type ArchiveEntry,
+  type ArchiveProgress,
+  type ArchiveSink,
+} from './archive';
+import { ASSEMBLY_GUIDE_SUFFIX, formatFilename, sanitizeFilename, type FilenameTemplates } from './filenameTemplate';
+
+/** Longest side of the previews shown in the image grid and crop editor */
+const THUMBNAIL_MAX_SIZE = 800;
+
+export { getMosaicMargin, type ConvertOptions, type MosaicOptions, type MosaicResult } from './imageRenderer';
+
 /**
- * Convert image to specified dimensions, maintaining aspect ratio with padding
+ * Convert image to the target dimensions using the chosen fit mode.
+ * Every mode except 'scale' produces exactly targetWidth × targetHeight,
+ * unless a size limit forces the image to be scaled down.
+ * Runs in the processing worker when the browser supports it; aborting the
+ * signal rejects with an AbortError.
  */
 export async function convertImage(
   file: File,
-  horizontalWidth: number = 2050,
-  verticalHeight: number = 2994
-): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    
-    img.onload = () => {
-      // Determine orientation and target dimensions
-      const isHorizontal = img.width > img.height;
-      const targetWidth = isHorizontal ? horizontalWidth : Math.round((horizontalWidth * img.width) / img.height);
-      const targetHeight = isHorizontal ? Math.round((verticalHeight * img.height) / img.width) : verticalHeight;
-      
-      // Create canvas with correct dimensions
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        URL.revokeObjectURL(url);
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-      
-      canvas.width = isHorizontal ? horizontalWidth : targetWidth;
-      canvas.height = isHorizontal ? targetHeight : verticalHeight;
-      
-      // Fill with white background to handle transparent images
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      // Calculate positioning to center the image
-      const x = (canvas.width - targetWidth) / 2;
-      const y = (canvas.height - targetHeight) / 2;
-      
-      // Draw image centered on canvas with specified dimensions
-      ctx.drawImage(img, x, y, targetWidth, targetHeight);
-      
-      // Convert to blob
-      canvas.toBlob(blob => {
-        if (blob) {
-          URL.revokeObjectURL(url);
-          resolve(blob);
-        } else {
-          URL.revokeObjectURL(url);
-          reject(new Error('Failed to convert image to blob'));
-        }
-      }, file.type || 'image/jpeg', 0.95);
-    };
-    
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load image'));
-    };
-    
-    img.src = url;
-  });
+  targetWidth: number = DEFAULT_PRESET.width,
+  targetHeight: number = DEFAULT_PRESET.height,
+  options: ConvertOptions = {},
+  signal?: AbortSignal
+): Promise<EncodedImage> {
+  return processImageTask<EncodedImage>({
+    kind: 'convert',
+    file,
+    width: targetWidth,
+    height: targetHeight,
+    options,
+  }, signal);
 }
 
 /**
- * Split image into a 3x3 mosaic, each piece with specified dimensions
+ * Split image into a rows × cols mosaic, each piece with specified dimensions,
+ * with the assembly guide when options.assemblyGuide is set.
+ * Runs in the processing worker when the browser supports it.
  */
 export async function createMosaicPieces(
   file: File,
-  pieceWidth: number = 2050,
-  pieceHeight: number = 2994
-): Promise<Blob[]> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    
-    img.onload = () => {
-      try {
-        // For mosaic, we need to create a large image first that can be divided into 9 equal pieces
-        // Each piece will be pieceWidth x pieceHeight
-        const totalWidth = pieceWidth * 3;
-        const totalHeight = pieceHeight * 3;
-        
-        // Calculate scale to fit original image into the 3x3 grid
-        const scaleWidth = totalWidth / img.width;
-        const scaleHeight = totalHeight / img.height;
-        const scale = Math.max(scaleWidth, scaleHeight);
-        
-        // Calculate the scaled dimensions
-        const scaledWidth = img.width * scale;
-        const scaledHeight = img.height * scale;
-        
-        // Center positioning
-        const x = (totalWidth - scaledWidth) / 2;
-        const y = (totalHeight - scaledHeight) / 2;
-        
-        // Create a temporary canvas for the full-size image
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = totalWidth;
-        tempCanvas.height = totalHeight;
-        const tempCtx = tempCanvas.getContext('2d');
-        
-        if (!tempCtx) {
-          URL.revokeObjectURL(url);
-          reject(new Error('Could not get canvas context'));
-          return;
-        }
-        
-        // Fill with white background
-        tempCtx.fillStyle = '#FFFFFF';
-        tempCtx.fillRect(0, 0, totalWidth, totalHeight);
-        
-        // Draw the scaled image centered
-        tempCtx.drawImage(img, x, y, scaledWidth, scaledHeight);
-        
-        // Now create 9 separate canvases for each piece
-        const pieces: Blob[] = [];
-        let piecesCompleted = 0;
-        
-        const processPiece = (row: number, col: number) => {
-          const pieceCanvas = document.createElement('canvas');
-          pieceCanvas.width = pieceWidth;
-          pieceCanvas.height = pieceHeight;
-          const pieceCtx = pieceCanvas.getContext('2d');
-          
-          if (!pieceCtx) {
-            console.error('Could not get piece canvas context');
-            piecesCompleted++;
-            checkCompletion();
-            return;
-          }
-          
-          // Fill the piece background with white
-          pieceCtx.fillStyle = '#FFFFFF';
-          pieceCtx.fillRect(0, 0, pieceWidth, pieceHeight);
-          
-          // Calculate source coordinates
-          const srcX = col * pieceWidth;
-          const srcY = row * pieceHeight;
-          
-          // Draw this piece from the temp canvas
-          pieceCtx.drawImage(
-            tempCanvas,
-            srcX, srcY, pieceWidth, pieceHeight,
-            0, 0, pieceWidth, pieceHeight
-          );
-          
-          // Convert to blob
-          pieceCanvas.toBlob(blob => {
-            if (blob) {
-              pieces.push(blob);
-            } else {
-              console.error('Failed to convert piece to blob for piece', row * 3 + col + 1);
-            }
-            piecesCompleted++;
-            checkCompletion();
-          }, file.type || 'image/jpeg', 0.95);
-        };
-        
-        const checkCompletion = () => {
-          if (piecesCompleted === 9) {
-            URL.revokeObjectURL(url);
-            if (pieces.length === 0) {
-              reject(new Error('Failed to create any mosaic pieces'));
-            } else {
-              console.log(`Created ${pieces.length} mosaic pieces successfully`);
-              resolve(pieces);
-            }
-          }
-        };
-        
-        // Process all 9 pieces
-        for (let row = 0; row < 3; row++) {
-          for (let col = 0; col < 3; col++) {
-            processPiece(row, col);
-          }
-        }
-      } catch (error) {
-        console.error('Error creating mosaic pieces:', error);
-        URL.revokeObjectURL(url);
-        reject(error);
-      }
-    };
-    
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load image'));
-    };
-    
-    img.src = url;
+  pieceWidth: number = DEFAULT_PRESET.width,
+  pieceHeight: number = DEFAULT_PRESET.height,
+  options: MosaicOptions = {},
+  signal?: AbortSignal
+): Promise<MosaicResult> {
+  const mosaic = await processImageTask<MosaicResult>({
+    kind: 'mosaic',
+    file,
+    width: pieceWidth,
+    height: pieceHeight,
+    options,
+  }, signal);
+  console.log(`Created ${mosaic.pieces.length} mosaic pieces successfully`);
+  return mosaic;
+}
+
+/**
+ * Downscaled PNG of the composed poster a mosaic is cut from, at most
+ * `maxSize` pixels on its longer side
+ */
+export function createMosaicPoster(
+  file: File,
+  pieceWidth: number,
+  pieceHeight: number,
+  options: MosaicOptions,
+  maxSize: number,
+  signal?: AbortSignal
+): Promise<Blob> {
+  return processImageTask<Blob>({
+    kind: 'poster',
+    file,
+    width: pieceWidth,
+    height: pieceHeight,
+    options,
+    maxSize,
+  }, signal);
+}
+
+/**
+ * Rough peak memory in bytes of converting a file, or of cutting it into a
+ * mosaic when mosaic options are given. The decoded source is guessed from
+ * the file size, as compressed photos are around a tenth of their RGBA size.
+ */
+export function estimateProcessingMemory(
+  file: File,
+  width: number,
+  height: number,
+  mosaicOptions?: MosaicOptions
+): number {
+  const source = file.size * 10;
+  // Output canvas plus the encoder's copy of it
+  const output = width * height * 4 * 2;
+  if (!mosaicOptions) return source + output;
+
+  const layout = computeMosaicLayout(width, height, {
+    grid: mosaicOptions.grid,
+    overlap: mosaicOptions.overlap,
+    margin: getMosaicMargin(width, height, mosaicOptions),
   });
+  return source + output + layout.totalWidth * layout.totalHeight * 4;
 }
 
 /**
- * Get file details including dimensions, type, and size
+ * Get file details including dimensions, type, and size. Dimensions are
+ * those of the upright image, after EXIF orientation.
  */
-export function getFileDetails(
+export async function getFileDetails(
   file: File
 ): Promise<{ width: number; height: number; type: string; size: number }> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      resolve({
-        width: img.width,
-        height: img.height,
-        type: file.type,
-        size: file.size,
-      });
-    };
-    
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load image for details'));
-    };
-    
-    img.src = url;
+  const img = await decodeImage(file).catch(() => {
+    throw new Error('Failed to load image for details');
   });
+  const { width, height } = img;
+  releaseImage(img);
+  
+  return {
+    width,
+    height,
+    type: file.type,
+    size: file.size,
+  };
 }
 
 /**
@@ -237,21 +156,35 @@ export function formatFileSize(bytes: number): string {
 }
 
 /**
- * Generate a thumbnail URL for a file
+ * Generate an upright, downscaled preview of a file as an object URL, which
+ * the caller revokes once it is no longer shown
  */
-export function createThumbnailUrl(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      if (e.target?.result) {
-        resolve(e.target.result as string);
-      } else {
-        reject(new Error('Failed to create thumbnail'));
-      }
-    };
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsDataURL(file);
+export async function createThumbnailUrl(file: File, maxSize: number = THUMBNAIL_MAX_SIZE): Promise<string> {
+  const img = await decodeImage(file).catch(() => {
+    throw new Error('Failed to create thumbnail');
   });
+  
+  try {
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+    const canvas = createCanvas(
+      Math.max(1, Math.round(img.width * scale)),
+      Math.max(1, Math.round(img.height * scale))
+    );
+    const ctx = getContext2D(canvas);
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+    
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    
+    // PNG keeps transparency, which JPEG would turn black
+    const type = supportsTransparency(file.type) ? 'image/png' : 'image/jpeg';
+    return URL.createObjectURL(await canvasToBlob(canvas, type, 0.85));
+  } finally {
+    releaseImage(img);
+  }
 }
 
 /**
@@ -277,49 +210,217 @@ export function downloadBlob(blob: Blob, filename: string): void {
   }, 100);
 }
 
+/** A finished source image, as far as downloading it is concerned */
+export interface DownloadableOutput {
+  sourceName: string;
+  /** 1-based position of the image in the list */
+  index: number;
+  /** Size of the converted image, or of each mosaic piece */
+  width: number;
+  height: number;
+  /** Converted image, outside mosaic mode */
+  convertedBlob?: Blob;
+  mosaicPieces?: Blob[];
+  assemblyGuide?: Blob;
+}
+
+/** What output filenames are built from, besides the outputs themselves */
+export interface OutputNaming {
+  templates: FilenameTemplates;
+  /** Name of the output size, for {preset} */
+  preset: string;
+  date: Date;
+}
+
+const getSourceBaseName = (output: Pick<DownloadableOutput, 'sourceName'>) => output.sourceName.replace(/\.[^/.]+$/, '');
+
+/**
+ * Filename of a converted image, with the extension of the encoded type
+ */
+export function getConvertedFilename(output: DownloadableOutput, blob: Blob, naming: OutputNaming): string {
+  return formatFilename(naming.templates.image, {
+    name: getSourceBaseName(output),
+    index: output.index,
+    width: output.width,
+    height: output.height,
+    preset: naming.preset,
+    date: naming.date,
+    ext: getExtensionForType(blob.type),
+  });
+}
+
+function formatPieceFilename(
+  output: Pick<DownloadableOutput, 'sourceName' | 'width' | 'height'>,
+  ext: string,
+  index: number,
+  grid: MosaicGrid,
+  naming: OutputNaming
+): string {
+  return formatFilename(naming.templates.piece, {
+    name: getSourceBaseName(output),
+    index: index + 1,
+    width: output.width,
+    height: output.height,
+    row: Math.floor(index / grid.cols) + 1,
+    col: (index % grid.cols) + 1,
+    preset: naming.preset,
+    date: naming.date,
+    ext,
+  });
+}
+
 /**
- * Download multiple blobs as a zip file
+ * Filename of a mosaic piece, e.g. "foto_parte_4_L2-C1.jpg"
  */
-export async function downloadBlobsAsZip(blobs: Blob[], baseFilename: string): Promise<void> {
-  if (!blobs || blobs.length === 0) {
+export function getMosaicPieceFilename(
+  output: DownloadableOutput,
+  blob: Blob,
+  index: number,
+  grid: MosaicGrid,
+  naming: OutputNaming
+): string {
+  return formatPieceFilename(output, getExtensionForType(blob.type), index, grid, naming);
+}
+
+/**
+ * Filenames every piece of a mosaic will be downloaded with, before it is
+ * encoded as `outputType`; the assembly guide labels the pieces with them
+ */
+export function getMosaicPieceFilenames(
+  output: Pick<DownloadableOutput, 'sourceName' | 'width' | 'height'>,
+  outputType: string,
+  grid: MosaicGrid,
+  naming: OutputNaming
+): string[] {
+  const ext = getExtensionForType(outputType);
+  return Array.from({ length: grid.rows * grid.cols }, (_, i) => formatPieceFilename(output, ext, i, grid, naming));
+}
+
+/**
+ * Filename of a whole mosaic with the given extension, e.g. "foto_mosaico.zip"
+ */
+export function getMosaicFilename(output: DownloadableOutput, naming: OutputNaming, ext: string): string {
+  return formatFilename(naming.templates.mosaic, {
+    name: getSourceBaseName(output),
+    index: output.index,
+    width: output.width,
+    height: output.height,
+    preset: naming.preset,
+    date: naming.date,
+    ext,
+  });
+}
+
+/**
+ * Filename of the assembly guide that ships with a mosaic, the mosaic name
+ * with a suffix
+ */
+export function getAssemblyGuideFilename(output: DownloadableOutput, blob: Blob, naming: OutputNaming): string {
+  return getMosaicFilename(
+    output,
+    { ...naming, templates: { ...naming.templates, mosaic: `${naming.templates.mosaic}${ASSEMBLY_GUIDE_SUFFIX}` } },
+    getExtensionForType(blob.type)
+  );
+}
+
+/**
+ * Archive entries of a mosaic: every piece and the assembly guide, inside
+ * `folder` when one is given
+ */
+export function getMosaicArchiveEntries(
+  output: DownloadableOutput,
+  grid: MosaicGrid,
+  naming: OutputNaming,
+  folder?: string
+): ArchiveEntry[] {
+  const prefix = folder ? `${folder}/` : '';
+  const entries = (output.mosaicPieces ?? []).map((blob, i) => ({
+    path: `${prefix}${getMosaicPieceFilename(output, blob, i, grid, naming)}`,
+    blob,
+  }));
+  
+  if (output.assemblyGuide) {
+    entries.push({
+      path: `${prefix}${getAssemblyGuideFilename(output, output.assemblyGuide, naming)}`,
+      blob: output.assemblyGuide,
+    });
+  }
+  
+  return entries;
+}
+
+/**
+ * Download the pieces of a mosaic as a zip file, together with the
+ * assembly guide when there is one
+ */
+export async function downloadBlobsAsZip(
+  output: DownloadableOutput,
+  grid: MosaicGrid,
+  naming: OutputNaming
+): Promise<void> {
+  if (!output.mosaicPieces || output.mosaicPieces.length === 0) {
     throw new Error('No blobs to download');
   }
   
   try {
-    console.log(`Creating zip with ${blobs.length} pieces for ${baseFilename}`);
-    
-    // Dynamic import of JSZip
-    const JSZipModule = await import('jszip');
-    const JSZip = JSZipModule.default;
-    const zip = new JSZip();
+    // Templates may give two pieces the same name; the archive numbers repeats
+    const zipBlob = await createZipArchive(getMosaicArchiveEntries(output, grid, naming));
     
-    // Add each blob to the zip file with an appropriate name
-    blobs.forEach((blob, i) => {
-      const extension = blob.type.split('/')[1] || 'jpg';
-      const filename = `${baseFilename}_parte_${i + 1}.${extension}`;
-      console.log(`Adding to zip: ${filename}`);
-      zip.file(filename, blob);
-    });
-    
-    // Generate the zip file
-    console.log('Generating zip file...');
-    const zipBlob = await zip.generateAsync({ type: 'blob' });
-    console.log(`Zip generated, size: ${zipBlob.size} bytes`);
-    
-    if (zipBlob.size === 0) {
-      throw new Error('Generated zip file is empty');
+    downloadBlob(zipBlob, getMosaicFilename(output, naming, 'zip'));
+  } catch (error) {
+    console.error('Failed to create zip file:', error);
+    throw new Error('Falha ao criar arquivo zip: ' + (error instanceof Error ? error.message : 'Erro desconhecido'));
+  }
+}
+
+/**
+ * Name of a file with every output of a batch (its zip or PDF), for outputs
+ * of `width` × `height`
+ */
+export function getBatchFilename(naming: OutputNaming, width: number, height: number, ext: string): string {
+  return formatFilename(naming.templates.batch, {
+    name: '',
+    index: 1,
+    width,
+    height,
+    preset: naming.preset,
+    date: naming.date,
+    ext,
+  });
+}
+
+/**
+ * Download every output in one zip. Converted images sit at the root and
+ * each mosaic gets a folder named after its source image. Where the browser
+ * allows it the user picks the file and the zip is streamed to disk, so this
+ * must be called straight from a click handler — or be given a `sink` opened
+ * there, when the outputs still had to be loaded.
+ */
+export async function downloadAllAsZip(
+  outputs: DownloadableOutput[],
+  zipFilename: string,
+  grid: MosaicGrid,
+  naming: OutputNaming,
+  onProgress?: (progress: ArchiveProgress) => void,
+  sink?: ArchiveSink
+): Promise<void> {
+  const usedFolders = new Set<string>();
+  const entries = outputs.flatMap((output): ArchiveEntry[] => {
+    if (output.mosaicPieces && output.mosaicPieces.length > 0) {
+      // Two sources with the same name must not share a folder
+      const folder = getUniquePath(sanitizeFilename(getSourceBaseName(output)), usedFolders);
+      return getMosaicArchiveEntries(output, grid, naming, folder);
     }
     
-    // Download the zip file
-    const zipFilename = `${baseFilename}_mosaico.zip`;
-    console.log(`Downloading zip as: ${zipFilename}`);
+    if (output.convertedBlob) {
+      return [{ path: getConvertedFilename(output, output.convertedBlob, naming), blob: output.convertedBlob }];
+    }
     
-    // Use the downloadBlob function for consistency
+    return [];
+  });
+  
+  const zipBlob = await writeZipArchive(entries, sink ?? await openArchiveSink(zipFilename), onProgress);
+  if (zipBlob) {
     downloadBlob(zipBlob, zipFilename);
-    
-    return;
-  } catch (error) {
-    console.error('Failed to create zip file:', error);
-    throw new Error('Falha ao criar arquivo zip: ' + (error instanceof Error ? error.message : 'Erro desconhecido'));
   }
 }
@@ -0,0 +1,442 @@
+/**
+ * Decoding, drawing and encoding of conversions and mosaics. Everything here
+ * runs unchanged in the processing worker and, as a fallback, on the main
+ * thread, so it must not touch the DOM directly.
+ */
+
+import {
+  computeMosaicLayout,
+  getMarkMargin,
+  getPosterPlacement,
+  type MosaicGrid,
+  type MosaicLayout,
+} from './mosaicLayout';
+import { computeFitPlacement, type FitMode } from './fitMode';
+import { getCropPixels, type SourceCrop } from './crop';
+import {
+  paintBackground,
+  paintSolidBackground,
+  sampleEdgeColor,
+  DEFAULT_BACKGROUND,
+  type BackgroundFill,
+} from './background';
+import { resolveOutputType, DEFAULT_OUTPUT_SETTINGS } from './outputFormat';
+import { encodeCanvas, type EncodedImage } from './encoder';
+import { drawGlueTabs, drawPrintMarks, type PrintMarkOptions } from './mosaicMarks';
+import { canvasToBlob, createCanvas, decodeImage, getContext2D, releaseImage, type AnyCanvas } from './canvas';
+import { isAbortError, throwIfAborted } from './abort';
+import { renderAssemblyGuide, type AssemblyGuideOptions } from './assemblyGuide';
+import { drawResampled, type ResampleOptions } from './resample';
+import {
+  canWriteIcc,
+  getMetadataSize,
+  readImageMetadata,
+  writeImageMetadata,
+  EMPTY_METADATA,
+  type ImageMetadata,
+  type MetadataSettings,
+} from './metadata';
+
+export interface ConvertOptions {
+  /** How the image is fitted into targetWidth × targetHeight */
+  fitMode?: FitMode;
+  /** Region of the source to use instead of the whole image */
+  crop?: SourceCrop;
+  /** Fill for the padding around the image, white by default */
+  background?: BackgroundFill;
+  /** Filter used to resize the image, bicubic by default */
+  resample?: ResampleOptions;
+  /** Encoded MIME type; the source type (or JPEG) by default */
+  outputType?: string;
+  /** Encoder quality between 0 and 1 */
+  quality?: number;
+  /** Maximum file size in bytes; quality and then dimensions are reduced to fit */
+  maxBytes?: number;
+  /** EXIF/ICC copying and print DPI; outputs carry no metadata by default */
+  metadata?: MetadataSettings;
+}
+
+export interface MosaicOptions {
+  /** Rows and columns of the mosaic, 3×3 by default */
+  grid?: MosaicGrid;
+  /** Pixels repeated from the neighbouring piece on every inner edge */
+  overlap?: number;
+  /** Hatch the overlap strips that are covered by the next piece */
+  glueTabs?: boolean;
+  /** Crop/registration marks and labels, drawn in a blank margin around each piece */
+  marks?: PrintMarkOptions;
+  /** Width of that margin; defaults to getMarkMargin() when any mark is enabled */
+  margin?: number;
+  /** Region of the source to spread over the poster instead of a centered cover */
+  crop?: SourceCrop;
+  /** Fill behind the poster and in the piece margins, white by default */
+  background?: BackgroundFill;
+  /** Filter used to resize the image onto the poster, bicubic by default */
+  resample?: ResampleOptions;
+  /** Encoded MIME type of every piece; the source type (or JPEG) by default */
+  outputType?: string;
+  /** Encoder quality between 0 and 1 */
+  quality?: number;
+  /** Maximum file size in bytes of every piece */
+  maxBytes?: number;
+  /** EXIF/ICC copying and print DPI of every piece */
+  metadata?: MetadataSettings;
+  /** Also draw the assembly guide, from the composed poster */
+  assemblyGuide?: AssemblyGuideOptions;
+}
+
+/** Pieces of a mosaic in row-major order, and its assembly guide if asked for */
+export interface MosaicResult {
+  pieces: EncodedImage[];
+  /** Missing when it was not asked for or could not be drawn */
+  assemblyGuide?: Blob;
+}
+
+/** A unit of work for the renderer, in a form that can be posted to a worker */
+export type ImageTask =
+  | { kind: 'convert'; file: Blob; width: number; height: number; options: ConvertOptions }
+  | { kind: 'mosaic'; file: Blob; width: number; height: number; options: MosaicOptions }
+  | { kind: 'poster'; file: Blob; width: number; height: number; options: MosaicOptions; maxSize: number };
+
+/** The full-size poster a mosaic is cut from, with what cutting it needs */
+interface ComposedPoster {
+  canvas: AnyCanvas;
+  layout: MosaicLayout;
+  metadata: ImageMetadata;
+  outputType: string;
+  background: BackgroundFill;
+  /** Color of the piece margins when the background is sampled from the image */
+  marginColor?: string;
+}
+
+/**
+ * Blank margin used around the image area of each piece for a set of options
+ */
+export function getMosaicMargin(
+  pieceWidth: number,
+  pieceHeight: number,
+  options: MosaicOptions
+): number {
+  if (options.margin !== undefined) return options.margin;
+
+  const { marks } = options;
+  const hasMarks = !!marks && (marks.cropMarks || marks.registrationMarks || marks.label !== undefined);
+  return hasMarks ? getMarkMargin(pieceWidth, pieceHeight) : 0;
+}
+
+/**
+ * Metadata of the source that goes into the outputs
+ */
+function readSourceMetadata(file: Blob, settings?: MetadataSettings): Promise<ImageMetadata> {
+  return settings?.mode === 'keep' ? readImageMetadata(file) : Promise.resolve(EMPTY_METADATA);
+}
+
+/**
+ * The metadata an output will really carry. It is settled before decoding,
+ * because the pixels only stay in the source color space when the profile
+ * goes along. A profile the format can't hold is dropped, and metadata too
+ * big for a quarter of maxBytes is left out rather than paid for with image
+ * quality.
+ */
+function selectOutputMetadata(
+  metadata: ImageMetadata,
+  outputType: string,
+  maxBytes: number | undefined
+): ImageMetadata {
+  const included: ImageMetadata = {
+    exif: metadata.exif,
+    icc: metadata.icc && canWriteIcc(outputType, metadata.icc) ? metadata.icc : null,
+  };
+  if (maxBytes && getMetadataSize(included) > maxBytes / 4) {
+    return EMPTY_METADATA;
+  }
+  return included;
+}
+
+/**
+ * Encode a canvas and add the metadata chosen by selectOutputMetadata,
+ * keeping the whole file within maxBytes
+ */
+async function encodeWithMetadata(
+  canvas: AnyCanvas,
+  outputType: string,
+  quality: number,
+  maxBytes: number | undefined,
+  metadata: ImageMetadata,
+  dpi: number | null,
+  signal?: AbortSignal
+): Promise<EncodedImage> {
+  const imageBytes = maxBytes ? maxBytes - getMetadataSize(metadata) : undefined;
+  const encoded = await encodeCanvas(canvas, outputType, quality, imageBytes, signal);
+  return { ...encoded, blob: await writeImageMetadata(encoded.blob, metadata, dpi) };
+}
+
+/**
+ * Render a single conversion
+ */
+export async function renderConvertedImage(
+  file: Blob,
+  targetWidth: number,
+  targetHeight: number,
+  options: ConvertOptions = {},
+  signal?: AbortSignal
+): Promise<EncodedImage> {
+  throwIfAborted(signal);
+  const outputType = options.outputType ?? resolveOutputType('original', file.type);
+  const metadata = selectOutputMetadata(
+    await readSourceMetadata(file, options.metadata),
+    outputType,
+    options.maxBytes
+  );
+  const dpi = options.metadata?.dpi ?? null;
+  // Pixels stay in the source color space only when its profile is copied
+  // along; otherwise they are converted to sRGB
+  const img = await decodeImage(file, metadata.icc !== null);
+
+  try {
+    throwIfAborted(signal);
+    const placement = computeFitPlacement(
+      img.width,
+      img.height,
+      targetWidth,
+      targetHeight,
+      options.fitMode,
+      options.crop ? getCropPixels(options.crop, img.width, img.height) : undefined
+    );
+
+    // Create canvas with correct dimensions
+    const canvas = createCanvas(placement.canvasWidth, placement.canvasHeight);
+    const ctx = getContext2D(canvas);
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+
+    const quality = options.quality ?? DEFAULT_OUTPUT_SETTINGS.quality;
+
+    // Fill the padding, which also covers transparent areas of the image
+    paintBackground(
+      ctx,
+      img,
+      placement,
+      canvas.width,
+      canvas.height,
+      options.background ?? DEFAULT_BACKGROUND,
+      outputType
+    );
+
+    // Draw the visible part of the image where the fit mode places it
+    drawResampled(ctx, img, placement, options.resample);
+
+    // Convert to blob, within the size limit if there is one
+    return await encodeWithMetadata(
+      canvas,
+      outputType,
+      quality,
+      options.maxBytes,
+      metadata,
+      dpi,
+      signal
+    );
+  } finally {
+    releaseImage(img);
+  }
+}
+
+/**
+ * Compose the full-size poster of a mosaic: the background, and the source
+ * (or its crop) resampled to cover the whole grid
+ */
+async function composePoster(
+  file: Blob,
+  pieceWidth: number,
+  pieceHeight: number,
+  options: MosaicOptions,
+  signal?: AbortSignal
+): Promise<ComposedPoster> {
+  throwIfAborted(signal);
+  const outputType = options.outputType ?? resolveOutputType('original', file.type);
+  const metadata = selectOutputMetadata(
+    await readSourceMetadata(file, options.metadata),
+    outputType,
+    options.maxBytes
+  );
+  // Pixels stay in the source color space only when its profile is copied
+  // along; otherwise they are converted to sRGB
+  const img = await decodeImage(file, metadata.icc !== null);
+
+  // For mosaic, we need to create a large image first that can be divided into equal pieces
+  // Each piece will be pieceWidth x pieceHeight
+  const layout = computeMosaicLayout(pieceWidth, pieceHeight, {
+    grid: options.grid,
+    overlap: options.overlap,
+    margin: getMosaicMargin(pieceWidth, pieceHeight, options),
+  });
+  const { totalWidth, totalHeight } = layout;
+  const background = options.background ?? DEFAULT_BACKGROUND;
+
+  // Scale the original image (or the chosen crop) to cover the grid
+  const placement = getPosterPlacement(layout, img.width, img.height, options.crop);
+
+  // Create a temporary canvas for the full-size image
+  const canvas = createCanvas(totalWidth, totalHeight);
+  const ctx = getContext2D(canvas);
+  let marginColor: string | undefined;
+
+  try {
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+
+    // Fill the poster background, visible where the image is transparent
+    paintBackground(ctx, img, placement, totalWidth, totalHeight, background, outputType);
+    marginColor = background.mode === 'auto'
+      ? sampleEdgeColor(img, placement, background.color)
+      : undefined;
+
+    // Draw the visible part of the image over the whole poster
+    drawResampled(ctx, img, placement, options.resample);
+  } finally {
+    // The poster canvas holds everything from here on
+    releaseImage(img);
+  }
+
+  return { canvas, layout, metadata, outputType, background, marginColor };
+}
+
+/**
+ * Render the composed poster of a mosaic downscaled to fit `maxSize` on its
+ * longer side, as a PNG in the color space of the pieces
+ */
+export async function renderMosaicPoster(
+  file: Blob,
+  pieceWidth: number,
+  pieceHeight: number,
+  options: MosaicOptions,
+  maxSize: number,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { canvas: poster, metadata } = await composePoster(file, pieceWidth, pieceHeight, options, signal);
+  const scale = Math.min(1, maxSize / Math.max(poster.width, poster.height));
+  const canvas = createCanvas(
+    Math.max(1, Math.round(poster.width * scale)),
+    Math.max(1, Math.round(poster.height * scale))
+  );
+
+  try {
+    throwIfAborted(signal);
+    const ctx = getContext2D(canvas);
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(poster, 0, 0, canvas.width, canvas.height);
+  } finally {
+    releaseImage(poster);
+  }
+
+  const blob = await canvasToBlob(canvas, 'image/png', 1);
+  releaseImage(canvas);
+  // Same color space as the pieces, so the preview shows their colors
+  return metadata.icc && canWriteIcc(blob.type, metadata.icc)
+    ? writeImageMetadata(blob, { exif: null, icc: metadata.icc }, null)
+    : blob;
+}
+
+/**
+ * Render the pieces of a mosaic, in row-major order, and its assembly guide
+ */
+export async function renderMosaicPieces(
+  file: Blob,
+  pieceWidth: number,
+  pieceHeight: number,
+  options: MosaicOptions = {},
+  signal?: AbortSignal
+): Promise<MosaicResult> {
+  const {
+    canvas: tempCanvas,
+    layout,
+    metadata,
+    outputType,
+    background,
+    marginColor,
+  } = await composePoster(file, pieceWidth, pieceHeight, options, signal);
+  const dpi = options.metadata?.dpi ?? null;
+  const quality = options.quality ?? DEFAULT_OUTPUT_SETTINGS.quality;
+
+  let assemblyGuide: Blob | undefined;
+  if (options.assemblyGuide) {
+    // The guide is a convenience, a failure here should not lose the pieces
+    try {
+      assemblyGuide = await renderAssemblyGuide(tempCanvas, layout, options.assemblyGuide, signal);
+      if (metadata.icc && canWriteIcc(assemblyGuide.type, metadata.icc)) {
+        // Same color space as the poster it was drawn from
+        assemblyGuide = await writeImageMetadata(assemblyGuide, { exif: null, icc: metadata.icc }, null);
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Failed to create assembly guide:', error);
+    }
+  }
+
+  // Pieces are cut and encoded one after the other, so only one piece canvas
+  // is alive at a time even on 10×10 grids
+  const pieces: EncodedImage[] = [];
+  for (const piece of layout.pieces) {
+    throwIfAborted(signal);
+    const pieceCanvas = createCanvas(pieceWidth, pieceHeight);
+    const pieceCtx = getContext2D(pieceCanvas);
+    if (!pieceCtx) {
+      throw new Error(`Could not get canvas context for piece ${piece.index + 1}`);
+    }
+
+    // Fill the piece background, which shows in the print margin
+    paintSolidBackground(pieceCtx, pieceWidth, pieceHeight, background, outputType, marginColor);
+
+    // Draw this piece from the temp canvas, inside the margin if there is one
+    pieceCtx.drawImage(
+      tempCanvas,
+      piece.x, piece.y, piece.width, piece.height,
+      layout.margin, layout.margin, piece.width, piece.height
+    );
+
+    if (options.glueTabs) {
+      drawGlueTabs(pieceCtx, piece, layout);
+    }
+
+    if (options.marks) {
+      drawPrintMarks(pieceCtx, piece, layout, options.marks);
+    }
+
+    // A missing piece would shift every filename after it, so any failure
+    // here rejects the whole mosaic
+    pieces.push(await encodeWithMetadata(
+      pieceCanvas,
+      outputType,
+      quality,
+      options.maxBytes,
+      metadata,
+      dpi,
+      signal
+    ));
+  }
+
+  return { pieces, assemblyGuide };
+}
+
+/**
+ * Run a task with the renderer on the current thread
+ */
+export function runImageTask(
+  task: ImageTask,
+  signal?: AbortSignal
+): Promise<EncodedImage | MosaicResult | Blob> {
+  switch (task.kind) {
+    case 'convert':
+      return renderConvertedImage(task.file, task.width, task.height, task.options, signal);
+    case 'mosaic':
+      return renderMosaicPieces(task.file, task.width, task.height, task.options, signal);
+    case 'poster':
+      return renderMosaicPoster(task.file, task.width, task.height, task.options, task.maxSize, signal);
+  }
+}
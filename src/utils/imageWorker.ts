@@ -0,0 +1,44 @@
+/**
+ * Web Worker entry point: runs renderer tasks off the main thread
+ */
+
+import { runImageTask, type ImageTask } from './imageRenderer';
+import { isAbortError } from './abort';
+import { isBitmapDecodeError } from './canvas';
+
+export type ImageWorkerRequest =
+  | { id: number; task: ImageTask }
+  | { id: number; cancel: true };
+
+export type ImageWorkerResponse =
+  | { id: number; result: Awaited<ReturnType<typeof runImageTask>> }
+  | { id: number; error: string; aborted?: boolean; decodeFailed?: boolean };
+
+const controllers = new Map<number, AbortController>();
+
+self.onmessage = async (event: MessageEvent<ImageWorkerRequest>) => {
+  const request = event.data;
+
+  if ('cancel' in request) {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+
+  try {
+    const result = await runImageTask(request.task, controller.signal);
+    self.postMessage({ id: request.id, result } satisfies ImageWorkerResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    self.postMessage({
+      id: request.id,
+      error: message,
+      aborted: isAbortError(error),
+      decodeFailed: isBitmapDecodeError(error),
+    } satisfies ImageWorkerResponse);
+  } finally {
+    controllers.delete(request.id);
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * Main-thread side of the processing workers. Tasks go to a small pool of
+ * workers when the browser supports OffscreenCanvas there, and run on the
+ * main thread otherwise.
+ */
+
+import type { EncodedImage } from './encoder';
+import { runImageTask, type ImageTask, type MosaicResult } from './imageRenderer';
+import type { ImageWorkerRequest, ImageWorkerResponse } from './imageWorker';
+import { MAX_CONCURRENCY } from './scheduler';
+import { createAbortError } from './abort';
+
+type TaskResult = EncodedImage | MosaicResult | Blob;
+
+interface PendingTask {
+  task: ImageTask;
+  signal?: AbortSignal;
+  resolve: (result: TaskResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  tasks: Map<number, PendingTask>;
+}
+
+const pool: PooledWorker[] = [];
+let workerSupported: boolean | null = null;
+let nextTaskId = 0;
+
+/**
+ * Whether images can be processed in a worker: besides Worker itself this
+ * needs createImageBitmap and an OffscreenCanvas with a 2D context, which
+ * older Safari versions lack
+ */
+export function supportsWorkerProcessing(): boolean {
+  if (workerSupported === null) {
+    try {
+      workerSupported =
+        typeof Worker !== 'undefined' &&
+        typeof createImageBitmap === 'function' &&
+        typeof OffscreenCanvas !== 'undefined' &&
+        new OffscreenCanvas(1, 1).getContext('2d') !== null;
+    } catch {
+      workerSupported = false;
+    }
+  }
+  return workerSupported;
+}
+
+/**
+ * Run a task on the main thread, settling the pending promise
+ */
+function runOnMainThread({ task, signal, resolve, reject }: PendingTask): void {
+  runImageTask(task, signal).then(resolve, reject);
+}
+
+/**
+ * Stop using workers for good. Tasks that were waiting on them run on the
+ * main thread instead.
+ */
+function abandonWorkers(reason: unknown): void {
+  console.error('Image worker failed, processing on the main thread:', reason);
+  workerSupported = false;
+
+  const workers = pool.splice(0, pool.length);
+  workers.forEach(({ worker, tasks }) => {
+    worker.terminate();
+    tasks.forEach(runOnMainThread);
+  });
+}
+
+function startWorker(): PooledWorker | null {
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    abandonWorkers(error);
+    return null;
+  }
+
+  const pooled: PooledWorker = { worker, tasks: new Map() };
+
+  worker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => {
+    const response = event.data;
+    const pending = pooled.tasks.get(response.id);
+    if (!pending) return;
+    pooled.tasks.delete(response.id);
+
+    // A task finishing as it is cancelled still counts as cancelled
+    if (pending.signal?.aborted || ('error' in response && response.aborted)) {
+      pending.reject(createAbortError());
+    } else if ('error' in response && response.decodeFailed) {
+      // Some formats (SVG) can't be decoded in a worker but load in an <img>
+      console.warn('Worker could not decode the image, retrying on the main thread:', response.error);
+      runOnMainThread(pending);
+    } else if ('error' in response) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.result);
+    }
+  };
+  worker.onerror = (event) => abandonWorkers(event.message);
+  worker.onmessageerror = (event) => abandonWorkers(event);
+
+  pool.push(pooled);
+  return pooled;
+}
+
+/**
+ * Idle worker if there is one, a new one while the pool can grow, and the
+ * least busy one otherwise. The scheduler keeps the number of tasks in
+ * flight at its concurrency, so the pool never grows past that.
+ */
+function getWorker(): PooledWorker | null {
+  if (!supportsWorkerProcessing()) return null;
+
+  const idle = pool.find(pooled => pooled.tasks.size === 0);
+  if (idle) return idle;
+  if (pool.length < MAX_CONCURRENCY) return startWorker();
+
+  return pool.reduce((least, pooled) => (pooled.tasks.size < least.tasks.size ? pooled : least));
+}
+
+/**
+ * Run a renderer task, in a worker when possible. Aborting the signal tells
+ * the worker to stop at its next step; the promise rejects with an AbortError
+ * once the worker has let go of the task, so its memory is really free.
+ */
+export function processImageTask<T extends TaskResult>(
+  task: ImageTask,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const pooled = getWorker();
+  if (!pooled) {
+    return runImageTask(task, signal) as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const id = nextTaskId++;
+    pooled.tasks.set(id, { task, signal, resolve: resolve as (result: TaskResult) => void, reject });
+    pooled.worker.postMessage({ id, task } satisfies ImageWorkerRequest);
+
+    signal?.addEventListener('abort', () => {
+      if (!pooled.tasks.has(id)) return;
+      pooled.worker.postMessage({ id, cancel: true } satisfies ImageWorkerRequest);
+    }, { once: true });
+  });
+}
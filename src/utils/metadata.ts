@@ -0,0 +1,510 @@
+/**
+ * Metadata carried into the outputs: EXIF, the ICC color profile and the
+ * print resolution. Canvas encoders write none of it, so it is read from the
+ * source file and spliced into each encoded blob.
+ */
+
+import { prepareExifForOutput } from './exif';
+import { crc32 } from './crc32';
+
+export type MetadataMode = 'keep' | 'strip';
+
+export interface MetadataSettings {
+  /** Copy EXIF and the color profile from the source, or write neither */
+  mode: MetadataMode;
+  /** Print resolution written to the file header, or null to leave it unset */
+  dpi: number | null;
+}
+
+/** Nothing from the source by default, so no location leaks into shared files */
+export const DEFAULT_METADATA: MetadataSettings = {
+  mode: 'strip',
+  dpi: 300,
+};
+
+export const METADATA_MODES: { value: MetadataMode; label: string; description: string }[] = [
+  {
+    value: 'keep',
+    label: 'Manter EXIF e perfil de cor',
+    description: 'Dados da câmera e perfil de cor do original são copiados para JPEG, PNG e WebP. A localização GPS é sempre removida.',
+  },
+  {
+    value: 'strip',
+    label: 'Remover tudo',
+    description: 'Nenhum dado da câmera, localização ou perfil de cor vai para os arquivos.',
+  },
+];
+
+/** Metadata read from a source file */
+export interface ImageMetadata {
+  /** EXIF as a TIFF structure, without the "Exif\0\0" header */
+  exif: Uint8Array | null;
+  /** ICC profile, uncompressed */
+  icc: Uint8Array | null;
+}
+
+export const EMPTY_METADATA: ImageMetadata = { exif: null, icc: null };
+
+const JPEG_SOI = 0xffd8;
+const JPEG_SOS = 0xffda;
+const JPEG_EOI = 0xffd9;
+const JPEG_APP0 = 0xffe0;
+const JPEG_APP1 = 0xffe1;
+const JPEG_APP2 = 0xffe2;
+/** Largest payload of a JPEG segment, whose length field counts itself */
+const MAX_SEGMENT_DATA = 65533;
+/** ICC chunks carry a sequence number and a count after the identifier */
+const ICC_CHUNK_HEADER = 14;
+
+/** VP8X flags */
+const WEBP_ICC_FLAG = 0x20;
+const WEBP_ALPHA_FLAG = 0x10;
+const WEBP_EXIF_FLAG = 0x08;
+
+/** Room for the headers around the metadata (JFIF, pHYs, VP8X, chunk headers) */
+const HEADER_OVERHEAD = 256;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('latin1');
+
+const EXIF_HEADER = textEncoder.encode('Exif\0\0');
+const ICC_HEADER = textEncoder.encode('ICC_PROFILE\0');
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function startsWith(bytes: Uint8Array, prefix: ArrayLike<number>): boolean {
+  if (bytes.length < prefix.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[i] !== prefix[i]) return false;
+  }
+  return true;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function isWebp(bytes: Uint8Array): boolean {
+  return textDecoder.decode(bytes.subarray(0, 4)) === 'RIFF'
+    && textDecoder.decode(bytes.subarray(8, 12)) === 'WEBP';
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Run bytes through a (de)compression stream; 'deflate' is the zlib format
+ * that PNG uses
+ */
+async function transformBytes(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * EXIF and ICC segments of a JPEG, read segment by segment so the image
+ * data itself is never loaded
+ */
+async function readJpegMetadata(file: Blob): Promise<ImageMetadata> {
+  let exif: Uint8Array | null = null;
+  const iccChunks: Uint8Array[] = [];
+
+  let offset = 2;
+  while (offset + 4 <= file.size) {
+    const header = viewOf(await readBytes(file, offset, offset + 4));
+    const marker = header.getUint16(0);
+    if ((marker & 0xff00) !== 0xff00 || marker === JPEG_SOS || marker === JPEG_EOI) break;
+
+    const length = header.getUint16(2);
+    if (marker === JPEG_APP1 || marker === JPEG_APP2) {
+      const data = await readBytes(file, offset + 4, offset + 2 + length);
+      if (marker === JPEG_APP1 && !exif && startsWith(data, EXIF_HEADER)) {
+        exif = data.subarray(EXIF_HEADER.length);
+      } else if (marker === JPEG_APP2 && startsWith(data, ICC_HEADER) && data[12] >= 1) {
+        iccChunks[data[12] - 1] = data.subarray(ICC_CHUNK_HEADER);
+      }
+    }
+
+    offset += 2 + length;
+  }
+
+  // A profile with a missing chunk is unusable
+  const complete = iccChunks.length > 0 && Array.from(iccChunks).every(chunk => chunk !== undefined);
+  return { exif, icc: complete ? concatBytes(iccChunks) : null };
+}
+
+/**
+ * eXIf and iCCP chunks of a PNG, which come before the image data
+ */
+async function readPngMetadata(file: Blob): Promise<ImageMetadata> {
+  const metadata: ImageMetadata = { exif: null, icc: null };
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 8);
+    const length = viewOf(header).getUint32(0);
+    const type = textDecoder.decode(header.subarray(4, 8));
+    if (type === 'IDAT' || type === 'IEND') break;
+
+    if (type === 'eXIf') {
+      metadata.exif = await readBytes(file, offset + 8, offset + 8 + length);
+    } else if (type === 'iCCP' && typeof DecompressionStream !== 'undefined') {
+      const data = await readBytes(file, offset + 8, offset + 8 + length);
+      // Profile name, a null separator and the compression method come first
+      const nameEnd = data.indexOf(0);
+      metadata.icc = await transformBytes(data.subarray(nameEnd + 2), new DecompressionStream('deflate'));
+    }
+
+    offset += 12 + length;
+  }
+
+  return metadata;
+}
+
+/**
+ * EXIF and ICCP chunks of a WebP
+ */
+async function readWebpMetadata(file: Blob): Promise<ImageMetadata> {
+  const metadata: ImageMetadata = { exif: null, icc: null };
+
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 8);
+    const fourcc = textDecoder.decode(header.subarray(0, 4));
+    const size = viewOf(header).getUint32(4, true);
+
+    if (fourcc === 'EXIF') {
+      const data = await readBytes(file, offset + 8, offset + 8 + size);
+      // Some writers keep the JPEG-style header
+      metadata.exif = startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data;
+    } else if (fourcc === 'ICCP') {
+      metadata.icc = await readBytes(file, offset + 8, offset + 8 + size);
+    }
+
+    // Chunks are padded to an even size
+    offset += 8 + size + (size & 1);
+  }
+
+  return metadata;
+}
+
+/**
+ * EXIF and ICC profile of a JPEG, PNG or WebP file. Anything unreadable is
+ * left out rather than failing the conversion.
+ */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  try {
+    const signature = await readBytes(file, 0, 12);
+    if (viewOf(signature).getUint16(0) === JPEG_SOI) {
+      return await readJpegMetadata(file);
+    }
+    if (startsWith(signature, PNG_SIGNATURE)) {
+      return await readPngMetadata(file);
+    }
+    if (isWebp(signature)) {
+      return await readWebpMetadata(file);
+    }
+  } catch (error) {
+    console.warn('Could not read image metadata:', error);
+  }
+
+  return EMPTY_METADATA;
+}
+
+/**
+ * Bytes the metadata adds to an output, at most
+ */
+export function getMetadataSize(metadata: ImageMetadata): number {
+  return (metadata.exif?.length ?? 0) + (metadata.icc?.length ?? 0) + HEADER_OVERHEAD;
+}
+
+function createJpegSegment(marker: number, parts: Uint8Array[]): Uint8Array {
+  const data = concatBytes(parts);
+  const segment = new Uint8Array(4 + data.length);
+  const view = viewOf(segment);
+  view.setUint16(0, marker);
+  view.setUint16(2, data.length + 2);
+  segment.set(data, 4);
+  return segment;
+}
+
+/**
+ * JFIF header with the density in dots per inch
+ */
+function createJfifSegment(dpi: number): Uint8Array {
+  const data = new Uint8Array(14);
+  const view = viewOf(data);
+  data.set(textEncoder.encode('JFIF\0'));
+  data[5] = 1; // version 1.01
+  data[6] = 1;
+  data[7] = 1; // units: dots per inch
+  view.setUint16(8, dpi);
+  view.setUint16(10, dpi);
+  return createJpegSegment(JPEG_APP0, [data]);
+}
+
+function writeJpegMetadata(
+  bytes: Uint8Array,
+  exif: Uint8Array | null,
+  icc: Uint8Array | null,
+  dpi: number | null
+): Uint8Array {
+  const view = viewOf(bytes);
+  if (view.getUint16(0) !== JPEG_SOI) return bytes;
+
+  // Canvas output starts with a JFIF header, which must stay first
+  let insertAt = 2;
+  const parts = [bytes.subarray(0, 2)];
+  if (view.getUint16(2) === JPEG_APP0) {
+    insertAt = 4 + view.getUint16(4);
+    if (!dpi) parts.push(bytes.subarray(2, insertAt));
+  }
+  if (dpi) {
+    parts.push(createJfifSegment(dpi));
+  }
+
+  if (exif && EXIF_HEADER.length + exif.length <= MAX_SEGMENT_DATA) {
+    parts.push(createJpegSegment(JPEG_APP1, [EXIF_HEADER, exif]));
+  }
+
+  if (icc) {
+    const chunkSize = MAX_SEGMENT_DATA - ICC_CHUNK_HEADER;
+    const count = Math.ceil(icc.length / chunkSize);
+    if (count <= 255) {
+      for (let i = 0; i < count; i++) {
+        parts.push(createJpegSegment(JPEG_APP2, [
+          ICC_HEADER,
+          new Uint8Array([i + 1, count]),
+          icc.subarray(i * chunkSize, (i + 1) * chunkSize),
+        ]));
+      }
+    }
+  }
+
+  parts.push(bytes.subarray(insertAt));
+  return concatBytes(parts);
+}
+
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = viewOf(chunk);
+  view.setUint32(0, data.length);
+  chunk.set(textEncoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function writePngMetadata(
+  bytes: Uint8Array,
+  exif: Uint8Array | null,
+  icc: Uint8Array | null,
+  dpi: number | null
+): Promise<Uint8Array> {
+  if (!startsWith(bytes, PNG_SIGNATURE)) return bytes;
+
+  const added: Uint8Array[] = [];
+  const writesIcc = !!icc && typeof CompressionStream !== 'undefined';
+  if (icc && writesIcc) {
+    const compressed = await transformBytes(icc, new CompressionStream('deflate'));
+    // Profile name, null separator, compression method 0 (deflate)
+    added.push(createPngChunk('iCCP', concatBytes([
+      textEncoder.encode('ICC Profile\0'),
+      new Uint8Array([0]),
+      compressed,
+    ])));
+  }
+  if (dpi) {
+    const data = new Uint8Array(9);
+    const pixelsPerMetre = Math.round(dpi / 0.0254);
+    viewOf(data).setUint32(0, pixelsPerMetre);
+    viewOf(data).setUint32(4, pixelsPerMetre);
+    data[8] = 1; // unit: metre
+    added.push(createPngChunk('pHYs', data));
+  }
+  if (exif) {
+    added.push(createPngChunk('eXIf', exif));
+  }
+
+  // The new chunks replace any that say the same thing; sRGB and iCCP can't
+  // both be present
+  const replaced = new Set<string>();
+  if (writesIcc) replaced.add('iCCP').add('sRGB');
+  if (dpi) replaced.add('pHYs');
+  if (exif) replaced.add('eXIf');
+
+  const view = viewOf(bytes);
+  const parts = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    const type = textDecoder.decode(bytes.subarray(offset + 4, offset + 8));
+    if (!replaced.has(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    // Metadata has to come before the image data, right after the header is simplest
+    if (type === 'IHDR') {
+      parts.push(...added);
+    }
+    offset = end;
+  }
+
+  return concatBytes(parts);
+}
+
+function createRiffChunk(fourcc: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(textEncoder.encode(fourcc));
+  viewOf(chunk).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+/**
+ * WebP has nowhere to put a DPI outside EXIF, but EXIF and ICC need the
+ * extended (VP8X) format, which in turn needs the canvas size and whether
+ * there is alpha
+ */
+function writeWebpMetadata(
+  bytes: Uint8Array,
+  exif: Uint8Array | null,
+  icc: Uint8Array | null
+): Uint8Array {
+  if ((!exif && !icc) || !isWebp(bytes)) return bytes;
+  const view = viewOf(bytes);
+
+  const chunks: Uint8Array[] = [];
+  let flags = 0;
+  let width = 0;
+  let height = 0;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const fourcc = textDecoder.decode(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+
+    if (fourcc === 'VP8X') {
+      flags = bytes[data];
+      width = 1 + (view.getUint32(data + 4, true) & 0xffffff);
+      height = 1 + (view.getUint32(data + 6, true) >>> 8);
+    } else if (fourcc === 'VP8L' && !width) {
+      // 14 bits each of width - 1 and height - 1, then the alpha bit
+      const bits = view.getUint32(data + 1, true);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >>> 14) & 0x3fff) + 1;
+      if ((bits >>> 28) & 1) flags |= WEBP_ALPHA_FLAG;
+    } else if (fourcc === 'VP8 ' && !width) {
+      width = view.getUint16(data + 6, true) & 0x3fff;
+      height = view.getUint16(data + 8, true) & 0x3fff;
+    } else if (fourcc === 'ALPH') {
+      flags |= WEBP_ALPHA_FLAG;
+    }
+
+    if (fourcc !== 'VP8X' && fourcc !== 'ICCP' && fourcc !== 'EXIF') {
+      chunks.push(bytes.subarray(offset, data + size + (size & 1)));
+    }
+    offset = data + size + (size & 1);
+  }
+
+  if (!width || !height) return bytes;
+
+  if (icc) flags |= WEBP_ICC_FLAG;
+  if (exif) flags |= WEBP_EXIF_FLAG;
+
+  const header = new Uint8Array(10);
+  const headerView = viewOf(header);
+  header[0] = flags;
+  // 24-bit little-endian width - 1 and height - 1
+  headerView.setUint32(4, width - 1, true);
+  headerView.setUint16(7, (height - 1) & 0xffff, true);
+  header[9] = (height - 1) >>> 16;
+
+  // Order required by the format: VP8X, ICCP, image data, EXIF
+  const body = concatBytes([
+    textEncoder.encode('WEBP'),
+    createRiffChunk('VP8X', header),
+    ...(icc ? [createRiffChunk('ICCP', icc)] : []),
+    ...chunks,
+    ...(exif ? [createRiffChunk('EXIF', exif)] : []),
+  ]);
+
+  const riff = new Uint8Array(8 + body.length);
+  riff.set(textEncoder.encode('RIFF'));
+  viewOf(riff).setUint32(4, body.length, true);
+  riff.set(body, 8);
+  return riff;
+}
+
+/**
+ * Whether an output of this type can carry the ICC profile. Pixels are only
+ * left in the source color space when it can; otherwise viewers would read
+ * them as sRGB.
+ */
+export function canWriteIcc(outputType: string, icc: Uint8Array): boolean {
+  switch (outputType) {
+    case 'image/jpeg':
+      return Math.ceil(icc.length / (MAX_SEGMENT_DATA - ICC_CHUNK_HEADER)) <= 255;
+    case 'image/png':
+      return typeof CompressionStream !== 'undefined';
+    case 'image/webp':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Add metadata and the print resolution to an encoded JPEG, PNG or WebP.
+ * Other formats (AVIF) are returned as they are.
+ */
+export async function writeImageMetadata(
+  blob: Blob,
+  metadata: ImageMetadata,
+  dpi: number | null
+): Promise<Blob> {
+  if (blob.type !== 'image/jpeg' && blob.type !== 'image/png' && blob.type !== 'image/webp') {
+    return blob;
+  }
+  if (!metadata.exif && !metadata.icc && !dpi) {
+    return blob;
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const exif = metadata.exif && prepareExifForOutput(metadata.exif, dpi);
+
+  let result: Uint8Array;
+  switch (blob.type) {
+    case 'image/jpeg':
+      result = writeJpegMetadata(bytes, exif, metadata.icc, dpi);
+      break;
+    case 'image/png':
+      result = await writePngMetadata(bytes, exif, metadata.icc, dpi);
+      break;
+    default:
+      result = writeWebpMetadata(bytes, exif, metadata.icc);
+  }
+
+  return result === bytes ? blob : new Blob([result], { type: blob.type });
+}
+
+/**
+ * Short description of metadata settings
+ */
+export function getMetadataLabel(settings: MetadataSettings): string {
+  const mode = settings.mode === 'keep' ? 'EXIF e perfil de cor mantidos' : 'removidos';
+  return settings.dpi ? `${mode}, ${settings.dpi} dpi` : mode;
+}
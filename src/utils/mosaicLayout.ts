@@ -0,0 +1,199 @@
+/**
+ * Geometry of a mosaic: how the composed poster is split into pieces
+ */
+
+import type { LengthUnit } from './units';
+import { getCropPixels, type SourceCrop } from './crop';
+import { computeFitPlacement, type FitPlacement } from './fitMode';
+
+export interface MosaicGrid {
+  rows: number;
+  cols: number;
+}
+
+export interface MosaicPieceRect {
+  /** Zero-based position in row-major order */
+  index: number;
+  /** Zero-based row and column */
+  row: number;
+  col: number;
+  /** Region of the composed poster covered by this piece. It is drawn at
+   * (margin, margin) on the piece canvas. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MosaicLayout {
+  grid: MosaicGrid;
+  pieceWidth: number;
+  pieceHeight: number;
+  /** Pixels shared by neighbouring pieces on every inner edge */
+  overlap: number;
+  /** Blank border around the image area of every piece, used for print marks */
+  margin: number;
+  /** Size of the composed poster that the pieces are cut from */
+  totalWidth: number;
+  totalHeight: number;
+  pieces: MosaicPieceRect[];
+}
+
+/**
+ * Mosaic settings as chosen in the UI
+ */
+export interface MosaicConfig {
+  grid: MosaicGrid;
+  /** Overlap between neighbouring pieces, in overlapUnit */
+  overlap: number;
+  overlapUnit: LengthUnit;
+  /** Hatch the overlap strips that get covered by the next piece */
+  glueTabs: boolean;
+  /** Print aids drawn in a blank margin around each piece */
+  cropMarks: boolean;
+  registrationMarks: boolean;
+  pieceLabels: boolean;
+}
+
+export interface MosaicLayoutOptions {
+  grid?: MosaicGrid;
+  overlap?: number;
+  margin?: number;
+}
+
+export const DEFAULT_MOSAIC_GRID: MosaicGrid = { rows: 3, cols: 3 };
+
+export const DEFAULT_MOSAIC_CONFIG: MosaicConfig = {
+  grid: DEFAULT_MOSAIC_GRID,
+  overlap: 0,
+  overlapUnit: 'mm',
+  glueTabs: false,
+  cropMarks: false,
+  registrationMarks: false,
+  pieceLabels: false,
+};
+
+export const MAX_MOSAIC_GRID_SIZE = 10;
+
+/**
+ * Check whether a row or column count is usable
+ */
+export function isValidGridSize(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= MAX_MOSAIC_GRID_SIZE;
+}
+
+/**
+ * Largest overlap that still leaves every piece some area of its own
+ */
+export function getMaxOverlap(pieceWidth: number, pieceHeight: number, margin: number = 0): number {
+  return Math.max(0, Math.floor(Math.min(pieceWidth, pieceHeight) / 2) - margin - 1);
+}
+
+/**
+ * Margin reserved for print marks, about 3% of the shorter piece side
+ */
+export function getMarkMargin(pieceWidth: number, pieceHeight: number): number {
+  return Math.max(24, Math.round(Math.min(pieceWidth, pieceHeight) * 0.03));
+}
+
+/**
+ * Whether any of the print marks that need a blank margin are enabled
+ */
+export function hasPrintMarks(config: Pick<MosaicConfig, 'cropMarks' | 'registrationMarks' | 'pieceLabels'>): boolean {
+  return config.cropMarks || config.registrationMarks || config.pieceLabels;
+}
+
+/**
+ * Short code of a piece, e.g. "B2" for row 2, column 2
+ */
+export function getPieceCode(row: number, col: number): string {
+  return `${String.fromCharCode(65 + row)}${col + 1}`;
+}
+
+/**
+ * Compute the poster size and the region of every piece for a grid.
+ * With an overlap, each piece starts `overlap` pixels before the end of its
+ * left/top neighbour, so inner edges repeat a strip of the adjacent piece.
+ * A margin shrinks the image area of every piece on all four sides.
+ */
+export function computeMosaicLayout(
+  pieceWidth: number,
+  pieceHeight: number,
+  { grid = DEFAULT_MOSAIC_GRID, overlap = 0, margin = 0 }: MosaicLayoutOptions = {}
+): MosaicLayout {
+  if (!isValidGridSize(grid.rows) || !isValidGridSize(grid.cols)) {
+    throw new Error(`Invalid mosaic grid ${grid.rows}x${grid.cols}`);
+  }
+  if (!Number.isInteger(margin) || margin < 0 || margin * 4 >= Math.min(pieceWidth, pieceHeight)) {
+    throw new Error(`Invalid mosaic margin ${margin}px`);
+  }
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap > getMaxOverlap(pieceWidth, pieceHeight, margin)) {
+    throw new Error(`Invalid mosaic overlap ${overlap}px`);
+  }
+
+  const contentWidth = pieceWidth - margin * 2;
+  const contentHeight = pieceHeight - margin * 2;
+  const stepX = contentWidth - overlap;
+  const stepY = contentHeight - overlap;
+
+  const pieces: MosaicPieceRect[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      pieces.push({
+        index: row * grid.cols + col,
+        row,
+        col,
+        x: col * stepX,
+        y: row * stepY,
+        width: contentWidth,
+        height: contentHeight,
+      });
+    }
+  }
+
+  return {
+    grid,
+    pieceWidth,
+    pieceHeight,
+    overlap,
+    margin,
+    totalWidth: stepX * grid.cols + overlap,
+    totalHeight: stepY * grid.rows + overlap,
+    pieces,
+  };
+}
+
+/**
+ * How the source image is drawn onto the composed poster. Without a crop the
+ * image is scaled to cover the whole poster and centered, so the excess is
+ * cropped away; with a crop that region is stretched over the poster.
+ */
+export function getPosterPlacement(
+  layout: Pick<MosaicLayout, 'totalWidth' | 'totalHeight'>,
+  imageWidth: number,
+  imageHeight: number,
+  crop?: SourceCrop
+): FitPlacement {
+  return computeFitPlacement(
+    imageWidth,
+    imageHeight,
+    layout.totalWidth,
+    layout.totalHeight,
+    crop ? 'stretch' : 'cover',
+    crop ? getCropPixels(crop, imageWidth, imageHeight) : undefined
+  );
+}
+
+/**
+ * Number of pieces produced by a grid
+ */
+export function getPieceCount(grid: MosaicGrid): number {
+  return grid.rows * grid.cols;
+}
+
+/**
+ * "3×3" style label for a grid (rows × columns)
+ */
+export function formatGrid(grid: MosaicGrid): string {
+  return `${grid.rows}×${grid.cols}`;
+}
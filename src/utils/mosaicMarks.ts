@@ -0,0 +1,209 @@
+/**
+ * Drawing helpers for the print aids added on top of mosaic pieces
+ */
+
+import { getPieceCode, type MosaicLayout, type MosaicPieceRect } from './mosaicLayout';
+import type { Context2D } from './canvas';
+
+interface StripRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  vertical: boolean;
+}
+
+/**
+ * Overlap strips of a piece that are covered by its right and bottom
+ * neighbours. These are the ones that receive glue when assembling.
+ */
+export function getGlueTabRects(piece: MosaicPieceRect, layout: MosaicLayout): StripRect[] {
+  const { overlap, grid, margin } = layout;
+  if (overlap <= 0) return [];
+
+  const strips: StripRect[] = [];
+  if (piece.col < grid.cols - 1) {
+    strips.push({
+      x: margin + piece.width - overlap,
+      y: margin,
+      width: overlap,
+      height: piece.height,
+      vertical: true,
+    });
+  }
+  if (piece.row < grid.rows - 1) {
+    strips.push({
+      x: margin,
+      y: margin + piece.height - overlap,
+      width: piece.width,
+      height: overlap,
+      vertical: false,
+    });
+  }
+  return strips;
+}
+
+/**
+ * Hatch the glue strips of a piece and label them "COLAR AQUI"
+ */
+export function drawGlueTabs(ctx: Context2D, piece: MosaicPieceRect, layout: MosaicLayout): void {
+  const strips = getGlueTabRects(piece, layout);
+  if (strips.length === 0) return;
+
+  const spacing = Math.max(8, Math.round(layout.overlap / 4));
+  const lineWidth = Math.max(1, Math.round(spacing / 6));
+
+  for (const strip of strips) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(strip.x, strip.y, strip.width, strip.height);
+    ctx.clip();
+
+    // Lighten the repeated image so the strip reads as a tab
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.55)';
+    ctx.fillRect(strip.x, strip.y, strip.width, strip.height);
+
+    // Diagonal hatching
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    const span = strip.width + strip.height;
+    for (let offset = -strip.height; offset < span; offset += spacing) {
+      ctx.moveTo(strip.x + offset, strip.y + strip.height);
+      ctx.lineTo(strip.x + offset + strip.height, strip.y);
+    }
+    ctx.stroke();
+
+    // Label along the strip
+    const fontSize = Math.max(10, Math.round(layout.overlap * 0.4));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.translate(strip.x + strip.width / 2, strip.y + strip.height / 2);
+    if (strip.vertical) {
+      ctx.rotate(-Math.PI / 2);
+    }
+    ctx.fillText('COLAR AQUI', 0, 0);
+
+    ctx.restore();
+  }
+}
+
+export interface PrintMarkOptions {
+  cropMarks?: boolean;
+  registrationMarks?: boolean;
+  /** Poster name shown in the piece label; labels are off when omitted */
+  label?: string;
+}
+
+/**
+ * Text printed in the margin of a piece, e.g. "B2 — linha 2, col 2 — cartaz"
+ */
+export function getPieceLabel(piece: MosaicPieceRect, posterName: string): string {
+  return `${getPieceCode(piece.row, piece.col)} — linha ${piece.row + 1}, col ${piece.col + 1} — ${posterName}`;
+}
+
+/**
+ * Short lines in the margin that extend the edges of the image area, one
+ * pair per corner, so the blank border can be trimmed precisely
+ */
+function drawCropMarks(ctx: Context2D, piece: MosaicPieceRect, margin: number): void {
+  const gap = Math.max(2, Math.round(margin * 0.15));
+  const left = margin;
+  const top = margin;
+  const right = margin + piece.width;
+  const bottom = margin + piece.height;
+
+  ctx.save();
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = Math.max(1, Math.round(margin / 30));
+  ctx.beginPath();
+  for (const x of [left, right]) {
+    for (const y of [top, bottom]) {
+      const outX = x === left ? -1 : 1;
+      const outY = y === top ? -1 : 1;
+      const edgeX = x === left ? 0 : right + margin;
+      const edgeY = y === top ? 0 : bottom + margin;
+
+      // Horizontal mark on the line of the top/bottom edge
+      ctx.moveTo(x + outX * gap, y);
+      ctx.lineTo(edgeX, y);
+      // Vertical mark on the line of the left/right edge
+      ctx.moveTo(x, y + outY * gap);
+      ctx.lineTo(x, edgeY);
+    }
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Circle-and-cross targets centred in the margin on every side
+ */
+function drawRegistrationMarks(ctx: Context2D, piece: MosaicPieceRect, margin: number): void {
+  const radius = margin * 0.3;
+  const canvasWidth = piece.width + margin * 2;
+  const canvasHeight = piece.height + margin * 2;
+  const centers = [
+    [canvasWidth / 2, margin / 2],
+    [canvasWidth / 2, canvasHeight - margin / 2],
+    [margin / 2, canvasHeight / 2],
+    [canvasWidth - margin / 2, canvasHeight / 2],
+  ];
+
+  ctx.save();
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = Math.max(1, Math.round(margin / 30));
+  for (const [cx, cy] of centers) {
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius * 0.6, 0, Math.PI * 2);
+    ctx.moveTo(cx - radius, cy);
+    ctx.lineTo(cx + radius, cy);
+    ctx.moveTo(cx, cy - radius);
+    ctx.lineTo(cx, cy + radius);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Piece label in the bottom-left margin, clear of the crop and registration marks
+ */
+function drawPieceLabel(ctx: Context2D, piece: MosaicPieceRect, margin: number, posterName: string): void {
+  const canvasWidth = piece.width + margin * 2;
+  const x = margin + Math.round(margin * 0.3);
+  const y = margin + piece.height + margin / 2;
+  const maxWidth = canvasWidth / 2 - x - margin * 0.6;
+
+  ctx.save();
+  ctx.font = `${Math.max(8, Math.round(margin * 0.4))}px sans-serif`;
+  ctx.fillStyle = '#000000';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(getPieceLabel(piece, posterName), x, y, Math.max(margin, maxWidth));
+  ctx.restore();
+}
+
+/**
+ * Draw the enabled print marks in the blank margin of a piece
+ */
+export function drawPrintMarks(
+  ctx: Context2D,
+  piece: MosaicPieceRect,
+  layout: MosaicLayout,
+  options: PrintMarkOptions
+): void {
+  const { margin } = layout;
+  if (margin <= 0) return;
+
+  if (options.cropMarks) {
+    drawCropMarks(ctx, piece, margin);
+  }
+  if (options.registrationMarks) {
+    drawRegistrationMarks(ctx, piece, margin);
+  }
+  if (options.label !== undefined) {
+    drawPieceLabel(ctx, piece, margin, options.label);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Output encoding: file type and quality of the generated images
+ */
+
+export type OutputFormat = 'original' | 'image/jpeg' | 'image/png' | 'image/webp' | 'image/avif';
+
+export interface OutputSettings {
+  format: OutputFormat;
+  /** Encoder quality between 0 and 1, ignored by lossless formats */
+  quality: number;
+  /** Maximum size of each file in bytes, or null for no limit */
+  maxBytes: number | null;
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  format: 'original',
+  quality: 0.95,
+  maxBytes: null,
+};
+
+/** Size limit suggested when the limit is switched on */
+export const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string; lossy: boolean }[] = [
+  { value: 'original', label: 'Mesmo do original', lossy: true },
+  { value: 'image/jpeg', label: 'JPEG', lossy: true },
+  { value: 'image/png', label: 'PNG', lossy: false },
+  { value: 'image/webp', label: 'WebP', lossy: true },
+  { value: 'image/avif', label: 'AVIF', lossy: true },
+];
+
+/** Types every browser canvas can encode; anything else is checked at runtime */
+const UNIVERSAL_TYPES = ['image/jpeg', 'image/png'];
+
+/** Source types that 'original' keeps as they are */
+const PASSTHROUGH_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+const encoderSupport = new Map<string, Promise<boolean>>();
+
+/**
+ * MIME type to encode to. 'original' keeps JPEG/PNG/WebP sources as they are
+ * and turns everything else (HEIC, GIF, BMP...) into JPEG.
+ */
+export function resolveOutputType(format: OutputFormat, sourceType: string): string {
+  if (format !== 'original') return format;
+  return PASSTHROUGH_TYPES.includes(sourceType) ? sourceType : 'image/jpeg';
+}
+
+/**
+ * File extension for an encoded type
+ */
+export function getExtensionForType(mimeType: string): string {
+  return EXTENSIONS[mimeType] ?? mimeType.split('/')[1] ?? 'jpg';
+}
+
+/**
+ * Whether the format has a quality setting
+ */
+export function isLossyFormat(format: OutputFormat, sourceType?: string): boolean {
+  const type = sourceType !== undefined ? resolveOutputType(format, sourceType) : format;
+  return type !== 'image/png';
+}
+
+/**
+ * Whether the canvas encoder of this browser supports a type. Browsers fall
+ * back to PNG silently, so the check looks at the type of a tiny test blob.
+ */
+export function isEncoderSupported(mimeType: string): Promise<boolean> {
+  if (UNIVERSAL_TYPES.includes(mimeType)) return Promise.resolve(true);
+
+  let support = encoderSupport.get(mimeType);
+  if (!support) {
+    support = new Promise<boolean>(resolve => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 1;
+      canvas.height = 1;
+      canvas.toBlob(blob => resolve(blob?.type === mimeType), mimeType);
+    });
+    encoderSupport.set(mimeType, support);
+  }
+  return support;
+}
+
+/**
+ * Size in megabytes for the UI, e.g. "2 MB" or "1,5 MB"
+ */
+export function formatMegabytes(bytes: number): string {
+  return `${parseFloat((bytes / (1024 * 1024)).toFixed(2)).toLocaleString('pt-BR')} MB`;
+}
+
+/**
+ * Label of the output settings for the UI, e.g. "WebP 80%"
+ */
+export function getOutputLabel(settings: OutputSettings): string {
+  const label = OUTPUT_FORMATS.find(format => format.value === settings.format)?.label ?? settings.format;
+  const base = isLossyFormat(settings.format) ? `${label} ${Math.round(settings.quality * 100)}%` : label;
+  return settings.maxBytes ? `${base}, até ${formatMegabytes(settings.maxBytes)}` : base;
+}
@@ -0,0 +1,56 @@
+/**
+ * Physical paper sizes used for print exports
+ */
+
+export interface PaperSize {
+  id: string;
+  name: string;
+  /** Portrait width and height in millimetres */
+  widthMm: number;
+  heightMm: number;
+}
+
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: 'a5', name: 'A5', widthMm: 148, heightMm: 210 },
+  { id: 'a4', name: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'a3', name: 'A3', widthMm: 297, heightMm: 420 },
+  { id: 'a2', name: 'A2', widthMm: 420, heightMm: 594 },
+  { id: 'a1', name: 'A1', widthMm: 594, heightMm: 841 },
+  { id: 'a0', name: 'A0', widthMm: 841, heightMm: 1189 },
+  { id: 'letter', name: 'Carta (Letter)', widthMm: 215.9, heightMm: 279.4 },
+  { id: 'legal', name: 'Ofício (Legal)', widthMm: 215.9, heightMm: 355.6 },
+  { id: 'photo-10x15', name: 'Foto 10×15', widthMm: 100, heightMm: 150 },
+];
+
+export const DEFAULT_PAPER_ID = 'a4';
+
+/**
+ * Look up a paper size, falling back to A4
+ */
+export function getPaperSize(id: string): PaperSize {
+  return PAPER_SIZES.find(paper => paper.id === id)
+    ?? PAPER_SIZES.find(paper => paper.id === DEFAULT_PAPER_ID)!;
+}
+
+/**
+ * Paper width and height in millimetres for an orientation
+ */
+export function getOrientedPaperSize(
+  paper: PaperSize,
+  orientation: PaperOrientation
+): { widthMm: number; heightMm: number } {
+  const short = Math.min(paper.widthMm, paper.heightMm);
+  const long = Math.max(paper.widthMm, paper.heightMm);
+  return orientation === 'portrait'
+    ? { widthMm: short, heightMm: long }
+    : { widthMm: long, heightMm: short };
+}
+
+/**
+ * Orientation that best fits an image of the given pixel size
+ */
+export function getOrientationForSize(width: number, height: number): PaperOrientation {
+  return width > height ? 'landscape' : 'portrait';
+}
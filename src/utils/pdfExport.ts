@@ -0,0 +1,200 @@
+/**
+ * Multi-page PDF export of mosaic pieces at real paper size
+ */
+
+import { downloadBlob } from './imageProcessor';
+import {
+  DEFAULT_PAPER_ID,
+  getOrientationForSize,
+  getOrientedPaperSize,
+  type PaperSize,
+} from './paper';
+import { formatLengthValue, formatPrintSize, getUnitLabel, pixelsToMillimetres, type PrintUnit } from './units';
+
+/** Paper chosen for the PDF, independent of print mode */
+export interface PdfSettings {
+  /** One of PAPER_SIZES */
+  paperId: string;
+  /** Blank border kept on every side of the page, in millimetres */
+  marginMm: number;
+}
+
+export const DEFAULT_PDF_SETTINGS: PdfSettings = {
+  paperId: DEFAULT_PAPER_ID,
+  marginMm: 5,
+};
+
+/**
+ * Where the pieces are printed, and at which resolution, so the PDF matches
+ * the size the pieces were made for
+ */
+export interface PdfExportOptions {
+  paper: PaperSize;
+  /** Blank border kept on every side of the page, in millimetres */
+  marginMm: number;
+  /** Resolution the pieces are printed at */
+  dpi: number;
+  /** Unit sizes are reported in */
+  unit: PrintUnit;
+}
+
+export interface PdfMosaicEntry {
+  /** Poster name, used in the document outline */
+  name: string;
+  pieces: Blob[];
+  /** Printed as the first page of the mosaic when present */
+  assemblyGuide?: Blob;
+}
+
+/** Rounding to whole pixels may overshoot the printable area by this much */
+const FIT_TOLERANCE_MM = 0.5;
+
+interface PdfImage {
+  data: Uint8Array;
+  format: 'JPEG' | 'PNG';
+  width: number;
+  height: number;
+}
+
+/**
+ * Read a piece as bytes jsPDF can embed. JPEG and PNG are embedded as-is,
+ * anything else is re-encoded to JPEG first.
+ */
+async function loadPdfImage(blob: Blob): Promise<PdfImage> {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+
+  try {
+    if (blob.type === 'image/jpeg' || blob.type === 'image/png') {
+      return {
+        data: new Uint8Array(await blob.arrayBuffer()),
+        format: blob.type === 'image/png' ? 'PNG' : 'JPEG',
+        width,
+        height,
+      };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(bitmap, 0, 0);
+
+    const jpeg = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        result => (result ? resolve(result) : reject(new Error('Failed to convert piece to JPEG'))),
+        'image/jpeg',
+        0.95
+      );
+    });
+
+    return { data: new Uint8Array(await jpeg.arrayBuffer()), format: 'JPEG', width, height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Why pieces of this pixel size can't be printed at real size on the PDF
+ * paper, or null when they fit inside the margins
+ */
+export function getPdfFitError(
+  width: number,
+  height: number,
+  options: PdfExportOptions,
+  name: string
+): string | null {
+  const { widthMm, heightMm } = getOrientedPaperSize(options.paper, getOrientationForSize(width, height));
+  const fits =
+    pixelsToMillimetres(width, options.dpi) <= widthMm - options.marginMm * 2 + FIT_TOLERANCE_MM &&
+    pixelsToMillimetres(height, options.dpi) <= heightMm - options.marginMm * 2 + FIT_TOLERANCE_MM;
+  if (fits) return null;
+
+  return `As partes de ${name} têm ${formatPrintSize(width, height, options.dpi, options.unit)} ` +
+    `a ${options.dpi} dpi e não cabem em ${options.paper.name} com margem de ` +
+    `${formatLengthValue(options.marginMm, options.unit)} ${getUnitLabel(options.unit)}`;
+}
+
+/**
+ * Build a PDF with one page per piece, preceded by the assembly guide. Each
+ * page has the physical size of the paper and each piece is placed at its
+ * real size for the print resolution, so printing at 100% reproduces the
+ * intended scale and the overlap and crop marks line up. A piece that does
+ * not fit inside the margins is an error rather than being shrunk. The guide
+ * is only an overview and is fitted to the page.
+ */
+export async function createMosaicPdf(
+  entries: PdfMosaicEntry[],
+  options: PdfExportOptions
+): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  let doc: InstanceType<typeof jsPDF> | null = null;
+
+  for (const entry of entries) {
+    const pages = entry.assemblyGuide ? [entry.assemblyGuide, ...entry.pieces] : entry.pieces;
+
+    for (let i = 0; i < pages.length; i++) {
+      const isGuide = !!entry.assemblyGuide && i === 0;
+      const image = await loadPdfImage(pages[i]);
+      const orientation = getOrientationForSize(image.width, image.height);
+      const { widthMm, heightMm } = getOrientedPaperSize(options.paper, orientation);
+      const areaWidth = widthMm - options.marginMm * 2;
+      const areaHeight = heightMm - options.marginMm * 2;
+
+      let drawWidth = pixelsToMillimetres(image.width, options.dpi);
+      let drawHeight = pixelsToMillimetres(image.height, options.dpi);
+      if (isGuide) {
+        const scale = Math.min(areaWidth / drawWidth, areaHeight / drawHeight);
+        drawWidth *= scale;
+        drawHeight *= scale;
+      } else {
+        const fitError = getPdfFitError(image.width, image.height, options, entry.name);
+        if (fitError) throw new Error(fitError);
+      }
+
+      if (!doc) {
+        doc = new jsPDF({ orientation, unit: 'mm', format: [widthMm, heightMm], compress: true });
+      } else {
+        doc.addPage([widthMm, heightMm], orientation);
+      }
+
+      if (i === 0) {
+        doc.outline.add(null, entry.name, { pageNumber: doc.getNumberOfPages() });
+      }
+
+      // Centered, which puts a piece made for the printable area right inside the margins
+      const x = (widthMm - drawWidth) / 2;
+      const y = (heightMm - drawHeight) / 2;
+
+      doc.addImage(image.data, image.format, x, y, drawWidth, drawHeight, undefined, 'NONE');
+    }
+  }
+
+  if (!doc) {
+    throw new Error('No pieces to export');
+  }
+
+  return doc.output('blob');
+}
+
+/**
+ * Download mosaic pieces as a single PDF file
+ */
+export async function downloadMosaicsAsPdf(
+  entries: PdfMosaicEntry[],
+  filename: string,
+  options: PdfExportOptions
+): Promise<void> {
+  try {
+    const pdfBlob = await createMosaicPdf(entries, options);
+    downloadBlob(pdfBlob, filename);
+  } catch (error) {
+    console.error('Failed to create PDF file:', error);
+    throw new Error('Falha ao criar arquivo PDF: ' + (error instanceof Error ? error.message : 'Erro desconhecido'));
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Output size chosen as a printed sheet instead of pixels: a paper with its
+ * orientation and margins, turned into a pixel target at a resolution
+ */
+
+import {
+  DEFAULT_PAPER_ID,
+  getOrientedPaperSize,
+  getPaperSize,
+  type PaperOrientation,
+  type PaperSize,
+} from './paper';
+import {
+  DEFAULT_PRINT_DPI,
+  formatLengthValue,
+  getUnitLabel,
+  lengthToPixels,
+  type PrintUnit,
+} from './units';
+import { MAX_PRESET_DIMENSION, MIN_PRESET_DIMENSION, type SizePreset } from './sizePresets';
+
+export const CUSTOM_PAPER_ID = 'custom';
+
+export interface PrintSettings {
+  /** One of PAPER_SIZES, or CUSTOM_PAPER_ID */
+  paperId: string;
+  /** Portrait size of the custom paper in millimetres */
+  customWidthMm: number;
+  customHeightMm: number;
+  orientation: PaperOrientation;
+  /** Blank border left on every side, in millimetres */
+  marginMm: number;
+  /** Unit lengths are entered and shown in; everything is stored in mm */
+  unit: PrintUnit;
+  dpi: number;
+}
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  paperId: DEFAULT_PAPER_ID,
+  customWidthMm: 200,
+  customHeightMm: 300,
+  orientation: 'portrait',
+  marginMm: 0,
+  unit: 'cm',
+  dpi: DEFAULT_PRINT_DPI,
+};
+
+export const ORIENTATIONS: { value: PaperOrientation; label: string }[] = [
+  { value: 'portrait', label: 'Retrato' },
+  { value: 'landscape', label: 'Paisagem' },
+];
+
+/**
+ * The paper of a print setting, including a custom one
+ */
+export function getPrintPaper(settings: PrintSettings): PaperSize {
+  if (settings.paperId === CUSTOM_PAPER_ID) {
+    return {
+      id: CUSTOM_PAPER_ID,
+      name: 'Personalizado',
+      widthMm: settings.customWidthMm,
+      heightMm: settings.customHeightMm,
+    };
+  }
+  return getPaperSize(settings.paperId);
+}
+
+/**
+ * Printable area in millimetres: the oriented paper minus its margins
+ */
+export function getPrintArea(settings: PrintSettings): { widthMm: number; heightMm: number } {
+  const paper = getOrientedPaperSize(getPrintPaper(settings), settings.orientation);
+  return {
+    widthMm: paper.widthMm - settings.marginMm * 2,
+    heightMm: paper.heightMm - settings.marginMm * 2,
+  };
+}
+
+/**
+ * Pixel size of the printable area at the chosen resolution
+ */
+export function getPrintTarget(settings: PrintSettings): { width: number; height: number } {
+  const area = getPrintArea(settings);
+  return {
+    width: lengthToPixels(area.widthMm, 'mm', settings.dpi),
+    height: lengthToPixels(area.heightMm, 'mm', settings.dpi),
+  };
+}
+
+/**
+ * Why a print setting can't be used, or null when it can
+ */
+export function getPrintSettingsError(settings: PrintSettings): string | null {
+  const area = getPrintArea(settings);
+  if (area.widthMm <= 0 || area.heightMm <= 0) {
+    return 'As margens ocupam o papel inteiro';
+  }
+
+  const { width, height } = getPrintTarget(settings);
+  if (Math.max(width, height) > MAX_PRESET_DIMENSION) {
+    return `A ${settings.dpi} dpi o papel passa de ${MAX_PRESET_DIMENSION}px; escolha uma resolução menor`;
+  }
+  if (Math.min(width, height) < MIN_PRESET_DIMENSION) {
+    return `A área de impressão precisa ter pelo menos ${MIN_PRESET_DIMENSION}px de cada lado`;
+  }
+
+  return null;
+}
+
+/**
+ * Short description, e.g. "A4 retrato, margem 5 mm, 300 dpi"
+ */
+export function getPrintLabel(settings: PrintSettings): string {
+  const paper = getPrintPaper(settings);
+  const orientation = settings.orientation === 'portrait' ? 'retrato' : 'paisagem';
+  const margin = settings.marginMm > 0
+    ? `, margem ${formatLengthValue(settings.marginMm, settings.unit)} ${getUnitLabel(settings.unit)}`
+    : '';
+  return `${paper.name} ${orientation}${margin}, ${settings.dpi} dpi`;
+}
+
+/**
+ * Print settings as the size preset the rest of the app works with
+ */
+export function getPrintPreset(settings: PrintSettings): SizePreset {
+  return {
+    id: 'print',
+    name: getPrintLabel(settings),
+    ...getPrintTarget(settings),
+  };
+}
@@ -0,0 +1,368 @@
+/**
+ * Resampling filters for downscales, where a single drawImage aliases badly
+ * (moiré on fabrics, jagged text), plus an optional unsharp mask
+ */
+
+import type { FitPlacement } from './fitMode';
+import { createCanvas, getContext2D, type AnyCanvas, type Context2D } from './canvas';
+
+export type ResampleFilter = 'browser' | 'halving' | 'bilinear' | 'bicubic' | 'lanczos3';
+
+export interface ResampleOptions {
+  filter: ResampleFilter;
+  /** Unsharp mask amount after resizing, 0 (off) to 1 */
+  sharpen: number;
+}
+
+export type ResamplePresetId = 'fast' | 'balanced' | 'best';
+
+export const RESAMPLE_FILTERS: { value: ResampleFilter; label: string }[] = [
+  { value: 'browser', label: 'Navegador (direto)' },
+  { value: 'halving', label: 'Reduções sucessivas pela metade' },
+  { value: 'bilinear', label: 'Bilinear' },
+  { value: 'bicubic', label: 'Bicúbico' },
+  { value: 'lanczos3', label: 'Lanczos3' },
+];
+
+export const RESAMPLE_PRESETS: {
+  id: ResamplePresetId;
+  label: string;
+  description: string;
+  options: ResampleOptions;
+}[] = [
+  {
+    id: 'fast',
+    label: 'Rápido',
+    description: 'Redução direta pelo navegador. Pode serrilhar texto e tecidos.',
+    options: { filter: 'browser', sharpen: 0 },
+  },
+  {
+    id: 'balanced',
+    label: 'Equilibrado',
+    description: 'Filtro bicúbico, sem serrilhado e sem ficar lento.',
+    options: { filter: 'bicubic', sharpen: 0 },
+  },
+  {
+    id: 'best',
+    label: 'Máxima qualidade',
+    description: 'Lanczos3 com um leve reforço de nitidez. É o mais lento.',
+    options: { filter: 'lanczos3', sharpen: 0.35 },
+  },
+];
+
+export const DEFAULT_RESAMPLE: ResampleOptions = RESAMPLE_PRESETS[1].options;
+
+/** Radius in output pixels of the blur the unsharp mask subtracts */
+const SHARPEN_RADIUS = 1;
+/** Differences below this are left alone, so flat areas don't turn grainy */
+const SHARPEN_THRESHOLD = 2;
+
+type Kernel = (x: number) => number;
+
+const KERNELS: Record<'bilinear' | 'bicubic' | 'lanczos3', { support: number; kernel: Kernel }> = {
+  bilinear: {
+    support: 1,
+    kernel: x => Math.max(0, 1 - Math.abs(x)),
+  },
+  bicubic: {
+    // Catmull-Rom (a = -0.5)
+    support: 2,
+    kernel: x => {
+      const t = Math.abs(x);
+      if (t < 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+      if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+      return 0;
+    },
+  },
+  lanczos3: {
+    support: 3,
+    kernel: x => {
+      if (x === 0) return 1;
+      if (Math.abs(x) >= 3) return 0;
+      const px = Math.PI * x;
+      return (3 * Math.sin(px) * Math.sin(px / 3)) / (px * px);
+    },
+  },
+};
+
+interface Contribution {
+  start: number;
+  weights: Float32Array;
+}
+
+/**
+ * Preset matching a set of options, or null for a custom combination
+ */
+export function getResamplePreset(options: ResampleOptions): ResamplePresetId | null {
+  const preset = RESAMPLE_PRESETS.find(
+    candidate => candidate.options.filter === options.filter && candidate.options.sharpen === options.sharpen
+  );
+  return preset?.id ?? null;
+}
+
+/**
+ * Label of the resample options for the UI
+ */
+export function getResampleLabel(options: ResampleOptions): string {
+  const preset = RESAMPLE_PRESETS.find(candidate => candidate.id === getResamplePreset(options));
+  if (preset) return preset.label;
+
+  const filter = RESAMPLE_FILTERS.find(candidate => candidate.value === options.filter)?.label ?? options.filter;
+  return options.sharpen > 0 ? `${filter} + nitidez ${Math.round(options.sharpen * 100)}%` : filter;
+}
+
+/**
+ * Source pixels and weights behind every output pixel along one axis. On
+ * downscales the kernel is stretched so it covers every source pixel.
+ */
+function computeContributions(sourceSize: number, targetSize: number, support: number, kernel: Kernel): Contribution[] {
+  const scale = targetSize / sourceSize;
+  const filterScale = Math.min(1, scale);
+  const radius = support / filterScale;
+  const contributions: Contribution[] = [];
+
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) / scale;
+    const start = Math.max(0, Math.floor(center - radius));
+    const end = Math.min(sourceSize - 1, Math.ceil(center + radius));
+    const weights = new Float32Array(end - start + 1);
+
+    let total = 0;
+    for (let j = start; j <= end; j++) {
+      const weight = kernel((j + 0.5 - center) * filterScale);
+      weights[j - start] = weight;
+      total += weight;
+    }
+    if (total !== 0) {
+      for (let k = 0; k < weights.length; k++) weights[k] /= total;
+    }
+
+    contributions.push({ start, weights });
+  }
+
+  return contributions;
+}
+
+/**
+ * One separable pass. Colors are weighted by alpha so transparent pixels
+ * don't bleed dark fringes into their neighbours.
+ */
+function convolve(
+  source: Uint8ClampedArray,
+  sourceWidth: number,
+  sourceHeight: number,
+  contributions: Contribution[],
+  horizontal: boolean
+): { data: Uint8ClampedArray; width: number; height: number } {
+  const width = horizontal ? contributions.length : sourceWidth;
+  const height = horizontal ? sourceHeight : contributions.length;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = contributions[horizontal ? x : y];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+
+      for (let k = 0; k < weights.length; k++) {
+        const i = horizontal
+          ? (y * sourceWidth + start + k) * 4
+          : ((start + k) * sourceWidth + x) * 4;
+        const weight = weights[k] * source[i + 3];
+        r += source[i] * weight;
+        g += source[i + 1] * weight;
+        b += source[i + 2] * weight;
+        a += weight;
+      }
+
+      const o = (y * width + x) * 4;
+      if (a > 0) {
+        data[o] = r / a;
+        data[o + 1] = g / a;
+        data[o + 2] = b / a;
+        data[o + 3] = a;
+      }
+    }
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Box blur of an RGBA buffer along one axis
+ */
+function boxBlurAxis(source: Uint8ClampedArray, width: number, height: number, radius: number, horizontal: boolean): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(source.length);
+  const length = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  const size = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    const index = (position: number) => {
+      const clamped = Math.min(length - 1, Math.max(0, position));
+      return (horizontal ? line * width + clamped : clamped * width + line) * 4;
+    };
+
+    for (let channel = 0; channel < 4; channel++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += source[index(k) + channel];
+
+      for (let position = 0; position < length; position++) {
+        output[index(position) + channel] = sum / size;
+        sum += source[index(position + radius + 1) + channel] - source[index(position - radius) + channel];
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Unsharp mask: add back the difference between the image and a blurred copy
+ * (three box blurs, close to a gaussian)
+ */
+function applyUnsharpMask(imageData: ImageData, amount: number): void {
+  const { data, width, height } = imageData;
+  let blurred: Uint8ClampedArray = data;
+  for (let pass = 0; pass < 3; pass++) {
+    blurred = boxBlurAxis(blurred, width, height, SHARPEN_RADIUS, true);
+    blurred = boxBlurAxis(blurred, width, height, SHARPEN_RADIUS, false);
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      const difference = data[i + channel] - blurred[i + channel];
+      if (Math.abs(difference) > SHARPEN_THRESHOLD) {
+        data[i + channel] = data[i + channel] + difference * amount;
+      }
+    }
+  }
+}
+
+/**
+ * Copy a source region into a canvas of the given size with the browser's
+ * own smoothing
+ */
+function drawScaled(
+  image: CanvasImageSource,
+  sx: number,
+  sy: number,
+  sw: number,
+  sh: number,
+  width: number,
+  height: number
+): AnyCanvas {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * Halve the source region until it is less than twice the target size, so
+ * that the final step never skips source pixels
+ */
+function halveTowards(
+  image: CanvasImageSource,
+  region: { sx: number; sy: number; sw: number; sh: number },
+  width: number,
+  height: number,
+  stopFactor: number
+): { image: CanvasImageSource; sx: number; sy: number; sw: number; sh: number } {
+  let current = { image, ...region };
+  while (current.sw >= width * stopFactor * 2 && current.sh >= height * stopFactor * 2) {
+    const halfWidth = Math.round(current.sw / 2);
+    const halfHeight = Math.round(current.sh / 2);
+    const canvas = drawScaled(current.image, current.sx, current.sy, current.sw, current.sh, halfWidth, halfHeight);
+    current = { image: canvas, sx: 0, sy: 0, sw: halfWidth, sh: halfHeight };
+  }
+  return current;
+}
+
+/**
+ * Resample a source region to width × height with the chosen filter.
+ * Upscales always use the browser's smoothing: the filters only make a
+ * visible difference when pixels are being thrown away.
+ */
+export function resampleRegion(
+  image: CanvasImageSource,
+  region: { sx: number; sy: number; sw: number; sh: number },
+  width: number,
+  height: number,
+  options: ResampleOptions = DEFAULT_RESAMPLE
+): AnyCanvas {
+  const isDownscale = region.sw > width || region.sh > height;
+  let canvas: AnyCanvas;
+
+  if (!isDownscale || options.filter === 'browser') {
+    canvas = drawScaled(image, region.sx, region.sy, region.sw, region.sh, width, height);
+  } else if (options.filter === 'halving') {
+    const halved = halveTowards(image, region, width, height, 1);
+    canvas = drawScaled(halved.image, halved.sx, halved.sy, halved.sw, halved.sh, width, height);
+  } else {
+    // Very large reductions are first halved down to a few times the target,
+    // which keeps the convolution fast and its buffers small
+    const { support, kernel } = KERNELS[options.filter];
+    const reduced = halveTowards(image, region, width, height, 2);
+    const sourceWidth = Math.max(1, Math.round(reduced.sw));
+    const sourceHeight = Math.max(1, Math.round(reduced.sh));
+    const source = drawScaled(reduced.image, reduced.sx, reduced.sy, reduced.sw, reduced.sh, sourceWidth, sourceHeight);
+    const sourceCtx = getContext2D(source);
+    if (!sourceCtx) throw new Error('Could not get canvas context');
+    const sourceData = sourceCtx.getImageData(0, 0, sourceWidth, sourceHeight).data;
+
+    const horizontal = convolve(
+      sourceData,
+      sourceWidth,
+      sourceHeight,
+      computeContributions(sourceWidth, width, support, kernel),
+      true
+    );
+    const vertical = convolve(
+      horizontal.data,
+      horizontal.width,
+      horizontal.height,
+      computeContributions(sourceHeight, height, support, kernel),
+      false
+    );
+
+    canvas = createCanvas(width, height);
+    const ctx = getContext2D(canvas);
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.putImageData(new ImageData(vertical.data, width, height), 0, 0);
+  }
+
+  if (options.sharpen > 0) {
+    const ctx = getContext2D(canvas, { willReadFrequently: true });
+    if (ctx) {
+      const imageData = ctx.getImageData(0, 0, width, height);
+      applyUnsharpMask(imageData, options.sharpen);
+      ctx.putImageData(imageData, 0, 0);
+    }
+  }
+
+  return canvas;
+}
+
+/**
+ * Drop-in replacement for the 9-argument drawImage of a fit placement
+ */
+export function drawResampled(
+  ctx: Context2D,
+  image: CanvasImageSource,
+  placement: Pick<FitPlacement, 'sx' | 'sy' | 'sw' | 'sh' | 'dx' | 'dy' | 'dw' | 'dh'>,
+  options: ResampleOptions = DEFAULT_RESAMPLE
+): void {
+  const width = Math.max(1, Math.round(placement.dw));
+  const height = Math.max(1, Math.round(placement.dh));
+  const resampled = resampleRegion(image, placement, width, height, options);
+  // Drawn rather than put, so the background painted underneath still shows
+  // through transparent pixels
+  ctx.drawImage(resampled, placement.dx, placement.dy, placement.dw, placement.dh);
+}
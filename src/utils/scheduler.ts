@@ -0,0 +1,117 @@
+/**
+ * Runs processing jobs in parallel, up to a concurrency limit and within a
+ * rough memory budget, so large mosaics don't all decode at the same time
+ */
+
+import { createAbortError } from './abort';
+
+export const MAX_CONCURRENCY = 8;
+
+/** Memory budget when the browser doesn't report device memory */
+const DEFAULT_MEMORY_BUDGET = 1024 * 1024 * 1024;
+
+export interface TaskScheduler {
+  /**
+   * Queue a job. It starts, in order, once a slot is free and its estimated
+   * memory fits in the budget; a job that is too big on its own still runs,
+   * but alone. Aborting the signal drops a job that hasn't started yet; a
+   * running job has to watch the signal itself.
+   */
+  schedule<T>(run: () => Promise<T>, memoryCost?: number, signal?: AbortSignal): Promise<T>;
+  setConcurrency(concurrency: number): void;
+  /** Stop starting queued jobs; running ones finish normally */
+  pause(): void;
+  resume(): void;
+}
+
+interface QueuedJob {
+  run: () => Promise<unknown>;
+  memoryCost: number;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Concurrency that keeps one core free for the UI
+ */
+export function getDefaultConcurrency(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_CONCURRENCY, cores - 1));
+}
+
+/**
+ * Memory the jobs may use together: a quarter of the device memory where the
+ * browser reports it (Chromium only), 1 GB otherwise
+ */
+export function getMemoryBudget(): number {
+  const deviceMemory = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+    : undefined;
+  return deviceMemory ? (deviceMemory * 1024 * 1024 * 1024) / 4 : DEFAULT_MEMORY_BUDGET;
+}
+
+export function createTaskScheduler(
+  concurrency: number = getDefaultConcurrency(),
+  memoryBudget: number = getMemoryBudget()
+): TaskScheduler {
+  const queue: QueuedJob[] = [];
+  let limit = Math.max(1, concurrency);
+  let running = 0;
+  let memoryInUse = 0;
+  let paused = false;
+
+  const canStart = (job: QueuedJob) =>
+    !paused && (running === 0 || (running < limit && memoryInUse + job.memoryCost <= memoryBudget));
+
+  // Jobs start strictly in order, so a big mosaic waits for memory instead of
+  // being overtaken forever by small conversions
+  const pump = () => {
+    while (queue.length > 0 && canStart(queue[0])) {
+      const job = queue.shift()!;
+      running++;
+      memoryInUse += job.memoryCost;
+
+      job.run()
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          running--;
+          memoryInUse -= job.memoryCost;
+          pump();
+        });
+    }
+  };
+
+  return {
+    schedule<T>(run: () => Promise<T>, memoryCost = 0, signal?: AbortSignal): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(createAbortError());
+          return;
+        }
+
+        const job: QueuedJob = { run, memoryCost, resolve: resolve as (value: unknown) => void, reject };
+        queue.push(job);
+
+        signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(job);
+          if (index === -1) return;
+          queue.splice(index, 1);
+          reject(createAbortError());
+        }, { once: true });
+
+        pump();
+      });
+    },
+    setConcurrency(next: number) {
+      limit = Math.max(1, Math.min(MAX_CONCURRENCY, next));
+      pump();
+    },
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      pump();
+    },
+  };
+}
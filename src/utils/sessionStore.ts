@@ -0,0 +1,203 @@
+/**
+ * The working queue kept in IndexedDB: source files, finished outputs and the
+ * settings they were made with, so a reload or a crashed tab picks up where
+ * it left off
+ */
+
+import type { SourceCrop } from './crop';
+import type { EncodingSummary } from './encoder';
+import type { MosaicConfig } from './mosaicLayout';
+import type { FitMode } from './fitMode';
+import type { BackgroundFill } from './background';
+import type { OutputSettings } from './outputFormat';
+import type { ResampleOptions } from './resample';
+import type { MetadataSettings } from './metadata';
+import type { PrintSettings } from './printSize';
+import type { FilenameTemplates } from './filenameTemplate';
+import type { PdfSettings } from './pdfExport';
+import {
+  IMAGES_STORE,
+  SESSION_STORE,
+  SOURCES_STORE,
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+} from './database';
+
+const SETTINGS_KEY = 'settings';
+const ORDER_KEY = 'order';
+
+export type StoredImageStatus = 'idle' | 'queued' | 'processing' | 'completed' | 'error' | 'cancelled';
+
+/** An item of the queue, as far as it is worth keeping */
+export interface StoredImage {
+  id: string;
+  file: File;
+  status: StoredImageStatus;
+  crop?: SourceCrop;
+  convertedBlob?: Blob;
+  mosaicPieces?: Blob[];
+  assemblyGuide?: Blob;
+  encoding?: EncodingSummary;
+}
+
+/** Every setting the outputs depend on */
+export interface SessionSettings {
+  mosaicMode: boolean;
+  mosaicConfig: MosaicConfig;
+  fitMode: FitMode;
+  background: BackgroundFill;
+  outputSettings: OutputSettings;
+  resample: ResampleOptions;
+  metadata: MetadataSettings;
+  printMode: boolean;
+  printSettings: PrintSettings;
+  filenameTemplates: FilenameTemplates;
+  pdfSettings: PdfSettings;
+  concurrency: number;
+}
+
+export interface StoredSession {
+  /** Missing fields were saved by an older version */
+  settings: Partial<SessionSettings> | null;
+  images: StoredImage[];
+}
+
+export interface StorageUsage {
+  /** Bytes used by this site, IndexedDB included */
+  usage: number;
+  quota: number;
+}
+
+export type StoredImageRecord = Omit<StoredImage, 'file'>;
+
+/**
+ * What is stored of an item besides its file; anything else it carries, such
+ * as object URLs, only makes sense in the page that created it
+ */
+export function toRecord(image: StoredImage): StoredImageRecord {
+  return {
+    id: image.id,
+    status: image.status,
+    crop: image.crop,
+    convertedBlob: image.convertedBlob,
+    mosaicPieces: image.mosaicPieces,
+    assemblyGuide: image.assemblyGuide,
+    encoding: image.encoding,
+  };
+}
+
+/**
+ * Whether saving `next` would store the same as `saved`
+ */
+export function isSameStoredImage(saved: StoredImage, next: StoredImage): boolean {
+  const a = toRecord(saved);
+  const b = toRecord(next);
+  return (Object.keys(a) as (keyof StoredImageRecord)[]).every(key => a[key] === b[key]);
+}
+
+/**
+ * The stored queue, in order, with the settings it was made with. Items whose
+ * source file is gone are dropped.
+ */
+export async function loadSession(): Promise<StoredSession> {
+  const database = await openDatabase();
+  const transaction = database.transaction([SOURCES_STORE, IMAGES_STORE, SESSION_STORE], 'readonly');
+  const session = transaction.objectStore(SESSION_STORE);
+  const [settings, order, records, sourceKeys, sources] = await Promise.all([
+    requestToPromise(session.get(SETTINGS_KEY)) as Promise<Partial<SessionSettings> | undefined>,
+    requestToPromise(session.get(ORDER_KEY)) as Promise<string[] | undefined>,
+    requestToPromise(transaction.objectStore(IMAGES_STORE).getAll()) as Promise<StoredImageRecord[]>,
+    requestToPromise(transaction.objectStore(SOURCES_STORE).getAllKeys()),
+    requestToPromise(transaction.objectStore(SOURCES_STORE).getAll()) as Promise<File[]>,
+  ]);
+
+  const files = new Map(sourceKeys.map((key, i) => [String(key), sources[i]]));
+  const position = new Map((order ?? []).map((id, i) => [id, i]));
+  const images = records
+    .filter(record => files.has(record.id))
+    .map(record => ({ ...record, file: files.get(record.id)! }))
+    .sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+
+  return { settings: settings ?? null, images };
+}
+
+export async function saveSessionSettings(settings: SessionSettings): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(SESSION_STORE, 'readwrite');
+  transaction.objectStore(SESSION_STORE).put(settings, SETTINGS_KEY);
+  await transactionToPromise(transaction);
+}
+
+/**
+ * Bring the stored queue in line with `images`: `changed` items are written,
+ * with their source file when listed in `newIds`, `removed` ids are deleted
+ * and the order is saved. Runs as one transaction, so a crash never
+ * half-applies it.
+ */
+export async function saveSessionImages(
+  images: StoredImage[],
+  changed: StoredImage[],
+  removed: string[],
+  newIds: ReadonlySet<string>
+): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([SOURCES_STORE, IMAGES_STORE, SESSION_STORE], 'readwrite');
+  const sources = transaction.objectStore(SOURCES_STORE);
+  const records = transaction.objectStore(IMAGES_STORE);
+
+  for (const image of changed) {
+    if (newIds.has(image.id)) {
+      sources.put(image.file, image.id);
+    }
+    records.put(toRecord(image));
+  }
+  for (const id of removed) {
+    sources.delete(id);
+    records.delete(id);
+  }
+  transaction.objectStore(SESSION_STORE).put(images.map(image => image.id), ORDER_KEY);
+
+  await transactionToPromise(transaction);
+}
+
+/**
+ * Delete everything stored, settings included
+ */
+export async function clearStoredSession(): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([SOURCES_STORE, IMAGES_STORE, SESSION_STORE], 'readwrite');
+  transaction.objectStore(SOURCES_STORE).clear();
+  transaction.objectStore(IMAGES_STORE).clear();
+  transaction.objectStore(SESSION_STORE).clear();
+  await transactionToPromise(transaction);
+}
+
+/**
+ * Storage used by the site and the browser's quota for it, or null when the
+ * browser won't tell
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+}
+
+/**
+ * Ask the browser not to evict the stored session when space runs low. Some
+ * browsers grant this silently, others decide from how the site is used.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return false;
+  }
+
+  return navigator.storage.persisted().then(persisted => persisted || navigator.storage.persist());
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
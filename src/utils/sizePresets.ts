@@ -0,0 +1,146 @@
+import { z } from 'zod';
+
+/**
+ * Named output size presets, persisted in localStorage
+ */
+
+export interface SizePreset {
+  id: string;
+  name: string;
+  /** Target width of converted images and of each mosaic piece */
+  width: number;
+  /** Target height of converted images and of each mosaic piece */
+  height: number;
+}
+
+export interface SizePresetState {
+  presets: SizePreset[];
+  activeId: string;
+}
+
+const STORAGE_KEY = 'image-sizer:size-presets';
+
+export const MIN_PRESET_DIMENSION = 16;
+export const MAX_PRESET_DIMENSION = 16384;
+
+export const DEFAULT_PRESET: SizePreset = {
+  id: 'default',
+  name: 'Padrão',
+  width: 2050,
+  height: 2994,
+};
+
+const dimensionSchema = z
+  .number()
+  .int()
+  .min(MIN_PRESET_DIMENSION)
+  .max(MAX_PRESET_DIMENSION);
+
+const presetSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().trim().min(1),
+  width: dimensionSchema,
+  height: dimensionSchema,
+});
+
+const exportFileSchema = z.union([
+  z.array(presetSchema),
+  z.object({ presets: z.array(presetSchema) }),
+]);
+
+/**
+ * Create a unique id for a new preset
+ */
+export function createPresetId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Check whether a width/height pair can be used as a preset
+ */
+export function isValidPresetDimension(value: number): boolean {
+  return dimensionSchema.safeParse(value).success;
+}
+
+/**
+ * Read presets from localStorage, falling back to the built-in default
+ */
+export function loadPresetState(): SizePresetState {
+  const fallback = { presets: [DEFAULT_PRESET], activeId: DEFAULT_PRESET.id };
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fallback;
+
+    const parsed = JSON.parse(raw);
+    const presets = z.array(presetSchema.required()).parse(parsed.presets) as SizePreset[];
+    if (presets.length === 0) return fallback;
+
+    const activeId = presets.some(preset => preset.id === parsed.activeId)
+      ? parsed.activeId
+      : presets[0].id;
+
+    return { presets, activeId };
+  } catch (error) {
+    console.warn('Ignoring invalid stored size presets:', error);
+    return fallback;
+  }
+}
+
+/**
+ * Write presets to localStorage
+ */
+export function savePresetState(state: SizePresetState): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Failed to save size presets:', error);
+  }
+}
+
+/**
+ * Serialize presets to the JSON format used by export/import
+ */
+export function serializePresets(presets: SizePreset[]): string {
+  return JSON.stringify(
+    { presets: presets.map(({ name, width, height }) => ({ name, width, height })) },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse an exported presets file. Imported presets always get fresh ids so
+ * they never clash with the ones already stored.
+ */
+export function parsePresets(json: string): SizePreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Arquivo de predefinições inválido');
+  }
+
+  const result = exportFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error('Arquivo de predefinições com formato inválido');
+  }
+
+  const presets = Array.isArray(result.data) ? result.data : result.data.presets;
+  return presets.map(({ name, width, height }) => ({
+    id: createPresetId(),
+    name,
+    width,
+    height,
+  }));
+}
+
+/**
+ * Short "2050×2994" label for a preset
+ */
+export function formatPresetSize(preset: Pick<SizePreset, 'width' | 'height'>): string {
+  return `${preset.width}×${preset.height}`;
+}
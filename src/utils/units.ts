@@ -0,0 +1,98 @@
+/**
+ * Conversions between physical lengths and pixels
+ */
+
+export type LengthUnit = 'px' | 'mm' | 'cm' | 'in';
+
+/** Units of physical lengths */
+export type PrintUnit = Exclude<LengthUnit, 'px'>;
+
+export const PRINT_UNITS: { value: PrintUnit; label: string }[] = [
+  { value: 'mm', label: 'mm' },
+  { value: 'cm', label: 'cm' },
+  { value: 'in', label: 'pol' },
+];
+
+/** Resolution assumed when a physical length has to become pixels */
+export const DEFAULT_PRINT_DPI = 300;
+
+/** Resolutions offered for printing */
+export const DPI_OPTIONS = [72, 150, 200, 300, 600];
+
+const MM_PER_INCH = 25.4;
+
+const MM_PER_UNIT: Record<PrintUnit, number> = {
+  mm: 1,
+  cm: 10,
+  in: MM_PER_INCH,
+};
+
+/** Decimals shown for each unit, about a tenth of a millimetre at most */
+const UNIT_DECIMALS: Record<PrintUnit, number> = {
+  mm: 0,
+  cm: 1,
+  in: 2,
+};
+
+/**
+ * Convert a physical length to millimetres
+ */
+export function toMillimetres(value: number, unit: PrintUnit): number {
+  return value * MM_PER_UNIT[unit];
+}
+
+/**
+ * Convert millimetres to a physical unit
+ */
+export function fromMillimetres(millimetres: number, unit: PrintUnit): number {
+  return millimetres / MM_PER_UNIT[unit];
+}
+
+/**
+ * Convert a length in the given unit to whole pixels
+ */
+export function lengthToPixels(
+  value: number,
+  unit: LengthUnit,
+  dpi: number = DEFAULT_PRINT_DPI
+): number {
+  if (unit === 'px') return Math.round(value);
+  return Math.round((toMillimetres(value, unit) / MM_PER_INCH) * dpi);
+}
+
+/**
+ * Convert whole pixels to millimetres
+ */
+export function pixelsToMillimetres(pixels: number, dpi: number = DEFAULT_PRINT_DPI): number {
+  return (pixels / dpi) * MM_PER_INCH;
+}
+
+/**
+ * Abbreviation of a unit as shown in the UI
+ */
+export function getUnitLabel(unit: PrintUnit): string {
+  return PRINT_UNITS.find(candidate => candidate.value === unit)?.label ?? unit;
+}
+
+/**
+ * Millimetres in a unit, rounded for display and in Brazilian notation
+ */
+export function formatLengthValue(millimetres: number, unit: PrintUnit): string {
+  return fromMillimetres(millimetres, unit).toLocaleString('pt-BR', {
+    maximumFractionDigits: UNIT_DECIMALS[unit],
+  });
+}
+
+/**
+ * Physical size of a pixel area printed at a resolution, e.g. "21 × 29,7 cm"
+ */
+export function formatPrintSize(
+  width: number,
+  height: number,
+  dpi: number,
+  unit: PrintUnit
+): string {
+  const widthLabel = formatLengthValue(pixelsToMillimetres(width, dpi), unit);
+  const heightLabel = formatLengthValue(pixelsToMillimetres(height, dpi), unit);
+  return `${widthLabel} × ${heightLabel} ${getUnitLabel(unit)}`;
+}